@@ -0,0 +1,109 @@
+/**
+ * Systematic difference (bias) at medical decision levels.
+ *
+ * The bias at a decision level Xc is estimated from the regression line as
+ * Yc - Xc where Yc = b0 + b1 * Xc. The standard error of Yc is derived from
+ * the standard errors and covariance of the slope and intercept,
+ *
+ *   SE(Yc) = sqrt(SE(b0)^2 + Xc^2 * SE(b1)^2 + 2 * Xc * cov(b0, b1))
+ *
+ * and the confidence interval uses the t distribution with n - 2 degrees of
+ * freedom. The covariance comes from the procedure used to calculate the
+ * confidence intervals for the regression coefficients. Every procedure other
+ * than the default non-parametric interval of Passing-Bablok regression gives one.
+ *
+ * CLSI EP09c. Measurement Procedure Comparison and Bias Estimation Using
+ * Patient Samples. 3rd Edition. 2018.
+ *
+ * @author Douglas Chesher
+ */
+
+import { studentt } from "jstat-esm";
+import { ConfidenceIntervalModel, DEFAULT_ALPHA } from "./regression";
+
+/* Bias at a single medical decision level */
+interface DecisionLevelBias {
+  level: number; // Medical decision level (X)
+  predicted: number; // Predicted value of Y at the decision level
+  bias: number; // Absolute bias (predicted - level)
+  biasLCL: number;
+  biasUCL: number;
+  relBias: number; // Bias as a percentage of the decision level
+  relBiasLCL: number;
+  relBiasUCL: number;
+  allowable: number; // Allowable difference from the APS, NaN if no APS
+  withinAps?: boolean; // Undefined if no APS
+}
+
+/**
+ * Allowable difference at a concentration given the analytical performance
+ * specification. The larger of the absolute and relative limits is used.
+ * A value less than or equal to zero indicates that the limit is not specified.
+ *
+ * @param level concentration
+ * @param apsAbs absolute APS
+ * @param apsRel relative APS as a fraction. e.g. 0.1 for 10%
+ * @returns allowable difference, or NaN if neither limit is specified
+ */
+function allowableDifference(level: number, apsAbs: number, apsRel: number): number {
+  const limits: number[] = [];
+  if (apsAbs > 0) limits.push(apsAbs);
+  if (apsRel > 0) limits.push(apsRel * Math.abs(level));
+  return limits.length === 0 ? NaN : Math.max(...limits);
+}
+
+/**
+ * Estimate the bias at each medical decision level.
+ *
+ * If the covariance of the slope and intercept is not available, e.g. for
+ * Passing-Bablok regression with the non-parametric confidence interval,
+ * the confidence limits are NaN.
+ *
+ * @param model regression results
+ * @param levels medical decision levels
+ * @param n number of samples used for the regression
+ * @param alpha default is 0.05 for 95% confidence intervals
+ * @param apsAbs absolute APS. Default is -1 (not specified)
+ * @param apsRel relative APS as a fraction. Default is -1 (not specified)
+ * @returns bias at each decision level
+ */
+function decisionLevelBias(
+  model: ConfidenceIntervalModel,
+  levels: number[],
+  n: number,
+  alpha: number = DEFAULT_ALPHA,
+  apsAbs: number = -1,
+  apsRel: number = -1
+): DecisionLevelBias[] {
+  if (n <= 2) throw new Error("Sample size must be greater than 2");
+  const t = studentt.inv(1 - alpha / 2, n - 2);
+  const cov = model.covariance ?? NaN;
+  const results: DecisionLevelBias[] = [];
+  for (const level of levels) {
+    const predicted = model.intercept + model.slope * level;
+    const bias = predicted - level;
+    const variance =
+      model.interceptSE * model.interceptSE +
+      level * level * model.slopeSE * model.slopeSE +
+      2 * level * cov;
+    const se = Math.sqrt(variance);
+    const biasLCL = bias - t * se;
+    const biasUCL = bias + t * se;
+    const allowable = allowableDifference(level, apsAbs, apsRel);
+    results.push({
+      level: level,
+      predicted: predicted,
+      bias: bias,
+      biasLCL: biasLCL,
+      biasUCL: biasUCL,
+      relBias: (100 * bias) / Math.abs(level),
+      relBiasLCL: (100 * biasLCL) / Math.abs(level),
+      relBiasUCL: (100 * biasUCL) / Math.abs(level),
+      allowable: allowable,
+      withinAps: isNaN(allowable) ? undefined : Math.abs(bias) <= allowable,
+    });
+  }
+  return results;
+} //decisionLevelBias
+
+export { DecisionLevelBias, allowableDifference, decisionLevelBias };
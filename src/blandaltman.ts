@@ -0,0 +1,216 @@
+/**
+ * Bland-Altman difference analysis.
+ *
+ * Calculates the mean difference (bias), the standard deviation of the
+ * differences and the 95% limits of agreement (LoA) together with their
+ * confidence intervals.
+ *
+ * Two methods are available for the confidence intervals of the LoA.
+ *  - "approx": the approximate method of Bland and Altman, in which the
+ *    standard error of each limit is sqrt(3 * s^2 / n).
+ *  - "exact": the exact method using the noncentral t distribution described
+ *    by Carkeet.
+ *
+ * Bland JM, Altman DG. Statistical methods for assessing agreement between
+ * two methods of clinical measurement. Lancet. 1986;1(8476):307-310.
+ *
+ * Carkeet A. Exact parametric confidence intervals for Bland-Altman limits
+ * of agreement. Optom Vis Sci. 2015;92(3):e71-80.
+ *
+ * Where the bias or the SD of the differences changes with concentration, the
+ * regression method regresses the differences on the means, and the absolute
+ * residuals from that regression on the means, to give sloped LoA.
+ *
+ * Bland JM, Altman DG. Measuring agreement in method comparison studies.
+ * Stat Methods Med Res. 1999;8(2):135-160.
+ *
+ * @author Douglas Chesher
+ */
+
+import { mean, stdev, studentt } from "jstat-esm";
+import { noncentralTInv } from "./distributions";
+import { allowableDifference } from "./bias";
+import { LeastSquaresRegression } from "./lsregression";
+
+enum LOA_CI {
+  EXACT = "exact",
+  APPROX = "approx",
+}
+
+const LOA_Z = 1.96; // Multiplier of the SD for the 95% limits of agreement
+
+/* Straight line as a function of the mean of the two methods */
+interface LinearFit {
+  intercept: number;
+  slope: number;
+}
+
+/* Results of the regression method of Bland and Altman */
+interface RegressionBlandAltman {
+  bias: LinearFit; // Mean difference
+  sd: LinearFit; // Standard deviation of the differences
+  upperLoA: LinearFit;
+  lowerLoA: LinearFit;
+}
+
+/* Results of a Bland-Altman analysis */
+interface BlandAltmanStatistics {
+  n: number;
+  bias: number; // Mean difference
+  biasLCL: number;
+  biasUCL: number;
+  sd: number; // Standard deviation of the differences
+  upperLoA: number;
+  upperLoaLCL: number;
+  upperLoaUCL: number;
+  lowerLoA: number;
+  lowerLoaLCL: number;
+  lowerLoaUCL: number;
+  pctOutsideAps: number; // Percentage of differences outside the APS, NaN if no APS
+}
+
+/**
+ * Calculate the means and differences of each pair of results.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param diffType "abs" or "reg" for y - x, or "rel" for (y - x) / mean
+ * @returns means and differences
+ */
+function differences(
+  x: number[],
+  y: number[],
+  diffType: string
+): { means: number[]; diffs: number[] } {
+  if (x.length !== y.length || x.length === 0) {
+    throw new Error("Input arrays must have the same non-zero length.");
+  }
+  const means: number[] = [];
+  const diffs: number[] = [];
+  for (let i = 0; i < x.length; i++) {
+    means[i] = (x[i] + y[i]) / 2;
+    diffs[i] = diffType === "rel" ? (y[i] - x[i]) / means[i] : y[i] - x[i];
+  }
+  return { means: means, diffs: diffs };
+} //differences
+
+/**
+ * Calculate the Bland-Altman statistics.
+ *
+ * A difference is outside the APS if the absolute difference y - x exceeds
+ * the allowable difference at the mean of x and y, irrespective of diffType.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param diffType "abs", "rel" or "reg". Absolute differences are used for "reg"
+ * @param alpha for the confidence intervals. Default is 0.05
+ * @param ciMethod confidence interval method for the LoA. Default is "exact"
+ * @param apsAbs absolute APS. Default is -1 (not specified)
+ * @param apsRel relative APS as a fraction. Default is -1 (not specified)
+ * @returns Bland-Altman statistics
+ */
+function blandAltmanStatistics(
+  x: number[],
+  y: number[],
+  diffType: string,
+  alpha: number = 0.05,
+  ciMethod: string = LOA_CI.EXACT,
+  apsAbs: number = -1,
+  apsRel: number = -1
+): BlandAltmanStatistics {
+  const { means, diffs } = differences(x, y, diffType);
+  const n = diffs.length;
+  if (n < 3) throw new Error("Sample size must be greater than 2");
+  const bias = mean(diffs);
+  const sd = stdev(diffs, true);
+  const t = studentt.inv(1 - alpha / 2, n - 1);
+  const upperLoA = bias + LOA_Z * sd;
+  const lowerLoA = bias - LOA_Z * sd;
+
+  // Distance of the confidence limits from the LoA, below and above
+  let below: number;
+  let above: number;
+  if (ciMethod === LOA_CI.EXACT) {
+    const ncp = LOA_Z * Math.sqrt(n);
+    below = LOA_Z * sd - (sd * noncentralTInv(alpha / 2, n - 1, ncp)) / Math.sqrt(n);
+    above = (sd * noncentralTInv(1 - alpha / 2, n - 1, ncp)) / Math.sqrt(n) - LOA_Z * sd;
+  } else if (ciMethod === LOA_CI.APPROX) {
+    below = t * Math.sqrt((3 * sd * sd) / n);
+    above = below;
+  } else {
+    throw new Error(`Unknown limits of agreement confidence interval method: ${ciMethod}`);
+  }
+
+  let pctOutsideAps = NaN;
+  if (apsAbs > 0 || apsRel > 0) {
+    let outside = 0;
+    for (let i = 0; i < n; i++) {
+      if (Math.abs(y[i] - x[i]) > allowableDifference(means[i], apsAbs, apsRel)) {
+        outside += 1;
+      }
+    }
+    pctOutsideAps = (100 * outside) / n;
+  }
+
+  return {
+    n: n,
+    bias: bias,
+    biasLCL: bias - (t * sd) / Math.sqrt(n),
+    biasUCL: bias + (t * sd) / Math.sqrt(n),
+    sd: sd,
+    upperLoA: upperLoA,
+    upperLoaLCL: upperLoA - below,
+    upperLoaUCL: upperLoA + above,
+    lowerLoA: lowerLoA,
+    lowerLoaLCL: lowerLoA - above,
+    lowerLoaUCL: lowerLoA + below,
+    pctOutsideAps: pctOutsideAps,
+  };
+} //blandAltmanStatistics
+
+/**
+ * Regression method for limits of agreement that vary with concentration.
+ *
+ * The differences (y - x) are regressed on the means, D = b0 + b1 * A, and the
+ * absolute residuals are regressed on the means, |R| = c0 + c1 * A. As the
+ * expected absolute value of a normal deviate is SD * sqrt(2 / pi), the SD of
+ * the differences is estimated as sqrt(pi / 2) * (c0 + c1 * A) and the LoA
+ * are D +/- 1.96 * SD.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @returns fitted lines for the bias, SD and LoA
+ */
+function regressionBlandAltman(x: number[], y: number[]): RegressionBlandAltman {
+  const { means, diffs } = differences(x, y, "abs");
+  if (means.length < 3) throw new Error("Sample size must be greater than 2");
+  const regression = new LeastSquaresRegression();
+  const biasFit = regression.calculate(means, diffs);
+  const residuals = means.map((a, i) => Math.abs(diffs[i] - biasFit.intercept - biasFit.slope * a));
+  const residualFit = regression.calculate(means, residuals);
+  const scale = Math.sqrt(Math.PI / 2);
+  const sd = { intercept: scale * residualFit.intercept, slope: scale * residualFit.slope };
+  return {
+    bias: { intercept: biasFit.intercept, slope: biasFit.slope },
+    sd: sd,
+    upperLoA: {
+      intercept: biasFit.intercept + LOA_Z * sd.intercept,
+      slope: biasFit.slope + LOA_Z * sd.slope,
+    },
+    lowerLoA: {
+      intercept: biasFit.intercept - LOA_Z * sd.intercept,
+      slope: biasFit.slope - LOA_Z * sd.slope,
+    },
+  };
+} //regressionBlandAltman
+
+export {
+  LOA_CI,
+  LOA_Z,
+  BlandAltmanStatistics,
+  LinearFit,
+  RegressionBlandAltman,
+  differences,
+  blandAltmanStatistics,
+  regressionBlandAltman,
+};
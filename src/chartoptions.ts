@@ -0,0 +1,153 @@
+/**
+ * Options for the titles, axes and colours of the method comparison charts.
+ *
+ * Blank titles use the default title of each chart. The units, if given, are
+ * appended to the titles of axes in concentration units. Axis bounds of null
+ * are set automatically by Excel.
+ *
+ * The options are saved in the workbook settings so that every report
+ * produced from a workbook has the same appearance.
+ *
+ * @author Douglas Chesher
+ */
+
+const CHART_OPTIONS_SETTING = "chartOptions"; // Name of the workbook setting
+
+/* Options for a chart axis */
+interface AxisOptions {
+  title: string; // Blank for the default title
+  min: number | null; // Null for automatic
+  max: number | null;
+  log: boolean; // Logarithmic scale
+}
+
+/* Options for one chart */
+interface ChartStyle {
+  title: string; // Blank for the default title
+  xAxis: AxisOptions;
+  yAxis: AxisOptions;
+}
+
+/* Colours of the chart series */
+interface ChartPalette {
+  points: string; // Blank for the Excel default
+  identity: string; // Identity and zero lines
+  regression: string; // Regression and mean difference lines
+  loa: string; // Limits of agreement
+  aps: string;
+  ci: string; // Confidence bands of the mean difference
+  loaCi: string; // Confidence bands of the limits of agreement
+  flagged: string; // Flagged residuals and their limits
+}
+
+interface ChartOptions {
+  units: string; // e.g. "mmol/L"
+  palette: ChartPalette;
+  blandAltman: ChartStyle;
+  regression: ChartStyle;
+  residual: ChartStyle;
+  mountain: ChartStyle;
+}
+
+/* Names of the charts in ChartOptions */
+type ChartName = "blandAltman" | "regression" | "residual" | "mountain";
+
+const CHART_NAMES: ChartName[] = ["blandAltman", "regression", "residual", "mountain"];
+
+function defaultAxis(): AxisOptions {
+  return { title: "", min: null, max: null, log: false };
+}
+
+function defaultStyle(): ChartStyle {
+  return { title: "", xAxis: defaultAxis(), yAxis: defaultAxis() };
+}
+
+/**
+ * Default chart options, which reproduce the original appearance of the charts.
+ *
+ * @returns a new default options object
+ */
+function defaultChartOptions(): ChartOptions {
+  return {
+    units: "",
+    palette: {
+      points: "",
+      identity: "black",
+      regression: "blue",
+      loa: "green",
+      aps: "red",
+      ci: "#9DC3E6",
+      loaCi: "#A9D18E",
+      flagged: "red",
+    },
+    blandAltman: defaultStyle(),
+    regression: defaultStyle(),
+    residual: defaultStyle(),
+    mountain: defaultStyle(),
+  };
+} //defaultChartOptions
+
+/**
+ * Title of a chart axis.
+ *
+ * @param title title set in the options, blank for the default
+ * @param defaultTitle default title
+ * @param units units appended in brackets if not blank
+ * @returns axis title
+ */
+function axisTitle(title: string, defaultTitle: string, units: string = ""): string {
+  const text = title.trim() === "" ? defaultTitle : title.trim();
+  return units.trim() === "" ? text : `${text} (${units.trim()})`;
+} //axisTitle
+
+/* Copy the values of the expected type from a parsed object over the defaults */
+function mergeValues<T extends object>(defaults: T, value: unknown): T {
+  if (value === null || typeof value !== "object") return defaults;
+  const defaultValues = defaults as Record<string, unknown>;
+  const parsedValues = value as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...defaultValues };
+  for (const key of Object.keys(defaultValues)) {
+    const current = defaultValues[key];
+    const parsed = parsedValues[key];
+    if (current !== null && typeof current === "object") {
+      result[key] = mergeValues(current, parsed);
+    } else if (current === null) {
+      // Axis bounds may be a number or null
+      result[key] = typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+    } else if (typeof parsed === typeof current) {
+      result[key] = parsed;
+    }
+  }
+  return result as T;
+} //mergeValues
+
+/**
+ * Read chart options saved as JSON. Missing or invalid values are replaced
+ * by the defaults.
+ *
+ * @param json saved options
+ * @returns chart options
+ */
+function parseChartOptions(json: string | null | undefined): ChartOptions {
+  if (json === null || json === undefined || json === "") return defaultChartOptions();
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return defaultChartOptions();
+  }
+  return mergeValues(defaultChartOptions(), value);
+} //parseChartOptions
+
+export {
+  CHART_OPTIONS_SETTING,
+  CHART_NAMES,
+  AxisOptions,
+  ChartStyle,
+  ChartPalette,
+  ChartOptions,
+  ChartName,
+  defaultChartOptions,
+  axisTitle,
+  parseChartOptions,
+};
@@ -1,22 +1,197 @@
 /**
- * ExcelBlandAltmanChart and ExcelRegressionChart classes for creating
- * charts in Excel using Office.js
+ * ExcelBlandAltmanChart, ExcelRegressionChart, ExcelResidualChart and
+ * ExcelMountainPlotChart classes for creating charts in Excel using Office.js
  * Requires jStat library for statistical functions
  *
+ * Each chart is named from its type and the chart data cell, e.g.
+ * "MET Scatter AP61". When the analysis is run again the chart with that name
+ * is refreshed rather than a new chart added.
+ *
  * @author Douglas Chesher
  *
  */
 
+/* global Excel */
+
 import { mean, stdev } from "jstat-esm";
+import {
+  BlandAltmanStatistics,
+  LOA_Z,
+  LinearFit,
+  RegressionBlandAltman,
+  differences,
+  regressionBlandAltman,
+} from "./blandaltman";
+import { ResidualDiagnostics } from "./residuals";
+import { mountainPlot } from "./mountain";
+import { ConfidenceBand } from "./regression";
+import { ChartOptions, ChartStyle, axisTitle, defaultChartOptions } from "./chartoptions";
+
+/* A row of chart data written to the worksheet */
+type ChartRow = (string | number | boolean)[];
+
+/* A method comparison drawn on a mountain plot */
+interface MountainComparison {
+  name: string; // Series name in the legend
+  x: number[];
+  y: number[];
+}
+
+const CHART_NAME_PREFIX = "MET"; // Prefix of the names of charts created by the add-in
+
+/* Default titles and value axis bounds of a chart, and whether each axis is in concentration units */
+interface ChartDefaults {
+  title: string;
+  xTitle: string;
+  yTitle: string;
+  xUnits: boolean;
+  yUnits: boolean;
+  yMin?: number;
+  yMax?: number;
+}
+
+/**
+ * Name of a chart created by the add-in.
+ *
+ * @param kind type of chart, e.g. "Scatter"
+ * @param chartDataRange top left cell of the chart data
+ * @returns chart name
+ */
+function chartName(kind: string, chartDataRange: string): string {
+  return `${CHART_NAME_PREFIX} ${kind} ${chartDataRange.split(":")[0].trim().toUpperCase()}`;
+} //chartName
+
+/**
+ * Find the chart with the given name on the worksheet and reset its data, or add
+ * it if it does not exist. Series added to an existing chart after its source
+ * data are deleted so they can be added again.
+ *
+ * @param context request context
+ * @param worksheet worksheet holding the chart
+ * @param name chart name
+ * @param type chart type
+ * @param sourceData range of the first series
+ * @returns the chart
+ */
+async function addOrRefreshChart(
+  context: Excel.RequestContext,
+  worksheet: Excel.Worksheet,
+  name: string,
+  type: Excel.ChartType,
+  sourceData: Excel.Range
+): Promise<Excel.Chart> {
+  const existing = worksheet.charts.getItemOrNullObject(name);
+  await context.sync();
+  if (existing.isNullObject) {
+    const chart = worksheet.charts.add(type, sourceData, Excel.ChartSeriesBy.columns);
+    chart.name = name;
+    return chart;
+  }
+  existing.chartType = type;
+  existing.setData(sourceData, Excel.ChartSeriesBy.columns);
+  existing.series.load("items/name");
+  await context.sync();
+  for (let i = existing.series.items.length - 1; i > 0; i--) {
+    existing.series.items[i].delete();
+  }
+  await context.sync();
+  return existing;
+} //addOrRefreshChart
+
+/**
+ * Delete the charts created by the add-in for a chart data cell that were not
+ * created or refreshed by the latest run, e.g. the residual chart after it has
+ * been turned off.
+ *
+ * @param chartDataRange top left cell of the chart data
+ * @param keep names of the charts to keep
+ * @returns number of charts deleted
+ */
+async function deleteOrphanCharts(chartDataRange: string, keep: string[]): Promise<number> {
+  let deleted = 0;
+  await Excel.run(async (context) => {
+    const charts = context.workbook.worksheets.getActiveWorksheet().charts;
+    charts.load("items/name");
+    await context.sync();
+    const suffix = chartName("", chartDataRange).slice(CHART_NAME_PREFIX.length + 1);
+    for (const chart of charts.items) {
+      if (
+        chart.name.startsWith(`${CHART_NAME_PREFIX} `) &&
+        chart.name.endsWith(suffix) &&
+        !keep.includes(chart.name)
+      ) {
+        chart.delete();
+        deleted++;
+      }
+    }
+    await context.sync();
+  });
+  return deleted;
+} //deleteOrphanCharts
+
+/**
+ * Apply the titles, axis bounds and scale types of the chart options to a chart.
+ * Bounds of null use the default bounds of the chart, if any, or are automatic.
+ *
+ * @param chart Excel chart
+ * @param style options for the chart
+ * @param units units appended to axis titles in concentration units
+ * @param defaults default titles and bounds
+ */
+function applyChartStyle(
+  chart: Excel.Chart,
+  style: ChartStyle,
+  units: string,
+  defaults: ChartDefaults
+): void {
+  chart.title.text = axisTitle(style.title, defaults.title);
+  const axes = [
+    {
+      axis: chart.axes.categoryAxis,
+      options: style.xAxis,
+      title: defaults.xTitle,
+      units: defaults.xUnits,
+      min: undefined,
+      max: undefined,
+    },
+    {
+      axis: chart.axes.valueAxis,
+      options: style.yAxis,
+      title: defaults.yTitle,
+      units: defaults.yUnits,
+      min: defaults.yMin,
+      max: defaults.yMax,
+    },
+  ];
+  for (const { axis, options, title, units: inUnits, min, max } of axes) {
+    axis.title.text = axisTitle(options.title, title, inUnits ? units : "");
+    // An empty string sets the bound automatically, which resets a refreshed chart
+    axis.minimum = options.min ?? min ?? "";
+    axis.maximum = options.max ?? max ?? "";
+    axis.scaleType = options.log
+      ? Excel.ChartAxisScaleType.logarithmic
+      : Excel.ChartAxisScaleType.linear;
+  }
+} //applyChartStyle
+
+/* Set the marker colour of the data points unless left as the Excel default */
+function setPointColor(series: Excel.ChartSeries, color: string): void {
+  if (color === "") return;
+  series.markerBackgroundColor = color;
+  series.markerForegroundColor = color;
+}
 
 class ExcelBlandAltmanChart {
   private x: number[]; // Array of numbers
   private y: number[]; // Array of numbers
-  private diffType: string; // 'abs' or 'rel'
+  private diffType: string; // 'abs', 'rel' or 'reg'
   private apsAbs: number; // Absolute total error specification
   private apsRel: number; // Relative total error specification
   private chartDataRange: string; // Cell range for chart data
   private outputRange: string; // Cell range for output
+  private ciBands: BlandAltmanStatistics | null; // Confidence intervals to draw as bands
+  private options: ChartOptions; // Titles, axes and colours
+  readonly name: string; // Chart name
 
   constructor(
     x: number[],
@@ -25,7 +200,9 @@ class ExcelBlandAltmanChart {
     apsAbs: number,
     apsRel: number,
     chartDataRange: string,
-    outputRange: string = ""
+    outputRange: string = "",
+    ciBands: BlandAltmanStatistics | null = null,
+    options: ChartOptions = defaultChartOptions()
   ) {
     //console.log("ExcelBlandAltmanChart initialized");
     this.x = x;
@@ -35,8 +212,11 @@ class ExcelBlandAltmanChart {
     this.apsRel = apsRel;
     this.chartDataRange = chartDataRange;
     this.outputRange = outputRange;
-    if (diffType !== "rel" && diffType !== "abs") {
-      throw new Error("Bland-Altman Type must be 'rel' or 'abs'.");
+    this.ciBands = ciBands;
+    this.options = options;
+    this.name = chartName("Difference", chartDataRange);
+    if (diffType !== "rel" && diffType !== "abs" && diffType !== "reg") {
+      throw new Error("Bland-Altman Type must be 'rel', 'abs' or 'reg'.");
     }
   } // constructor
 
@@ -63,20 +243,10 @@ class ExcelBlandAltmanChart {
       lowerLimitXValues: number[][];
       lowerLimitYValues: number[][];
     };
+    regressionFit: RegressionBlandAltman | null;
   } {
-    // The mean of x and y
-    let means: number[] = [];
-
-    // The difference or relative between y and x
-    let diffs: number[] = [];
-    if (this.x.length !== this.y.length || this.x.length === 0) {
-      throw new Error("Input arrays must have the same non-zero length.");
-    }
-    for (let i = 0; i < this.x.length; i++) {
-      means[i] = (this.x[i] + this.y[i]) / 2;
-      diffs[i] =
-        this.diffType === "rel" ? (this.y[i] - this.x[i]) / means[i] : this.y[i] - this.x[i];
-    }
+    // The mean of x and y, and the difference or relative difference between y and x
+    const { means, diffs } = differences(this.x, this.y, this.diffType);
     const meanDiff = mean(diffs);
     const sdDiff = stdev(diffs, true); // Sample standard deviation
     const minX = Math.min(...means);
@@ -92,6 +262,15 @@ class ExcelBlandAltmanChart {
 
     const meanDiffData = this.getMeanDifferenceData(minX, maxX, meanDiff);
 
+    let regressionFit = null;
+    if (this.diffType === "reg") {
+      // Regression method. The mean difference and LoA lines are sloped.
+      regressionFit = regressionBlandAltman(this.x, this.y);
+      meanDiffData.meanDiffYValues = this.getFittedLineValues(minX, maxX, regressionFit.bias);
+      loaData.upperLimitYValues = this.getFittedLineValues(minX, maxX, regressionFit.upperLoA);
+      loaData.lowerLimitYValues = this.getFittedLineValues(minX, maxX, regressionFit.lowerLoA);
+    }
+
     return {
       means: means,
       diffs: diffs,
@@ -102,9 +281,21 @@ class ExcelBlandAltmanChart {
       meanDiffData: meanDiffData,
       apsData: apsData,
       loaData: loaData,
+      regressionFit: regressionFit,
     };
   } // initializeModel
 
+  getFittedLineValues(minX: number, maxX: number, fit: LinearFit): number[][] {
+    // This function returns the y values of a fitted line at minX and maxX
+    return [[fit.intercept + fit.slope * minX], [fit.intercept + fit.slope * maxX]]; //2 rows, 1 column
+  } // getFittedLineValues
+
+  formatFit(fit: LinearFit): string {
+    // Equation of a fitted line for the chart legend
+    const sign = fit.slope < 0 ? "-" : "+";
+    return `${fit.intercept.toPrecision(4)} ${sign} ${Math.abs(fit.slope).toPrecision(4)}x`;
+  } // formatFit
+
   getMeanDifferenceData(
     minX: number,
     maxX: number,
@@ -132,9 +323,9 @@ class ExcelBlandAltmanChart {
   } {
     // This function returns the data for the 95% Limits of Agreemen Line Series
     const upperLimitXValues = [[minX], [maxX]]; //2 rows, 1 column
-    const upperLimitYValues = [[meanDiff + sdDiff * 1.96], [meanDiff + sdDiff * 1.96]]; //2 rows, 1 column
+    const upperLimitYValues = [[meanDiff + sdDiff * LOA_Z], [meanDiff + sdDiff * LOA_Z]]; //2 rows, 1 column
     const lowerLimitXValues = [[minX], [maxX]]; //2 rows, 1 column
-    const lowerLimitYValues = [[meanDiff - sdDiff * 1.96], [meanDiff - sdDiff * 1.96]]; //2 rows, 1 column
+    const lowerLimitYValues = [[meanDiff - sdDiff * LOA_Z], [meanDiff - sdDiff * LOA_Z]]; //2 rows, 1 column
     return {
       upperLimitXValues: upperLimitXValues,
       upperLimitYValues: upperLimitYValues,
@@ -222,6 +413,21 @@ class ExcelBlandAltmanChart {
     };
   } // getBlandAltmanApsData
 
+  getConfidenceBandData(
+    minX: number,
+    maxX: number,
+    lcl: number,
+    ucl: number
+  ): { bandX: number[][]; bandY: number[][] } {
+    // This function returns the outline of a confidence band as a closed rectangle
+    const bandX = [[minX], [maxX], [maxX], [minX], [minX]]; //5 rows, 1 column
+    const bandY = [[lcl], [lcl], [ucl], [ucl], [lcl]]; //5 rows, 1 column
+    return {
+      bandX: bandX,
+      bandY: bandY,
+    };
+  } // getConfidenceBandData
+
   /** Create Bland Altman Chart */
   async createChart() {
     await Excel.run(async (context) => {
@@ -328,40 +534,53 @@ class ExcelBlandAltmanChart {
       // Create the Bland-Altman chart
       // The chart will be a scatter plot with the means on the x-axis and the differences on the y-axis
       // We will use the chartData range as the data source for the chart
-      const chart = currentWorksheet.charts.add(
+      const chart = await addOrRefreshChart(
+        context,
+        currentWorksheet,
+        this.name,
         Excel.ChartType.xyscatter,
-        chartData,
-        Excel.ChartSeriesBy.columns
+        chartData
       );
-      chart.title.text = "Difference Chart";
+      const palette = this.options.palette;
       chart.legend.position = Excel.ChartLegendPosition.bottom;
       chart.legend.visible = true;
-      chart.axes.categoryAxis.title.text = headers[0]; //Mean
-      chart.axes.valueAxis.title.text = headers[1]; //Difference or Relative Difference
+      setPointColor(chart.series.getItemAt(0), palette.points);
 
       // Add the mean difference line
-      const meanDiffSeries = chart.series.add("Mean Difference");
+      const meanDiffSeries = chart.series.add(
+        model.regressionFit === null
+          ? "Mean Difference"
+          : `Mean Difference: ${this.formatFit(model.regressionFit.bias)}`
+      );
       meanDiffSeries.setValues(meanDiffYRange);
       meanDiffSeries.setXAxisValues(meanDiffXRange);
-      meanDiffSeries.format.line.color = "blue"; // Set the line color to red
+      meanDiffSeries.format.line.color = palette.regression;
       meanDiffSeries.format.line.lineStyle = Excel.ChartLineStyle.continuous; // Set the line style to solid
       meanDiffSeries.format.line.weight = 2; // Set the line weight
       meanDiffSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
 
       // Add the upper limit of agreement line
-      const upperLimitSeries = chart.series.add("Upper Limit of Agreement");
+      const upperLimitSeries = chart.series.add(
+        model.regressionFit === null
+          ? "Upper Limit of Agreement"
+          : `Upper Limit of Agreement: ${this.formatFit(model.regressionFit.upperLoA)}`
+      );
       upperLimitSeries.setValues(upperLimitYRange);
       upperLimitSeries.setXAxisValues(upperLimitXRange);
-      upperLimitSeries.format.line.color = "green"; // Set the line color to green
+      upperLimitSeries.format.line.color = palette.loa;
       upperLimitSeries.format.line.lineStyle = Excel.ChartLineStyle.dot; // Set the line style to dashed
       upperLimitSeries.format.line.weight = 1; // Set the line weight
       upperLimitSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
 
       // Add the lower limit of agreement line
-      const lowerLimitSeries = chart.series.add("Lower Limit of Agreement");
+      const lowerLimitSeries = chart.series.add(
+        model.regressionFit === null
+          ? "Lower Limit of Agreement"
+          : `Lower Limit of Agreement: ${this.formatFit(model.regressionFit.lowerLoA)}`
+      );
       lowerLimitSeries.setValues(lowerLimitYRange);
       lowerLimitSeries.setXAxisValues(lowerLimitXRange);
-      lowerLimitSeries.format.line.color = "green"; // Set the line color to green
+      lowerLimitSeries.format.line.color = palette.loa;
       lowerLimitSeries.format.line.lineStyle = Excel.ChartLineStyle.dot; // Set the line style to dot
       lowerLimitSeries.format.line.weight = 1; // Set the line weight
       lowerLimitSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
@@ -385,7 +604,7 @@ class ExcelBlandAltmanChart {
         const apsUpperSeries = chart.series.add("Upper APS");
         apsUpperSeries.setValues(apsUpperYRange);
         apsUpperSeries.setXAxisValues(apsUpperXRange);
-        apsUpperSeries.format.line.color = "red"; // Set the line color to purple
+        apsUpperSeries.format.line.color = palette.aps;
         apsUpperSeries.format.line.lineStyle = Excel.ChartLineStyle.dash; // Set the line style to dashed
         apsUpperSeries.format.line.weight = 1; // Set the line weight
         apsUpperSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
@@ -408,17 +627,73 @@ class ExcelBlandAltmanChart {
         const apsLowerSeries = chart.series.add("Lower APS");
         apsLowerSeries.setValues(apsLowerYRange);
         apsLowerSeries.setXAxisValues(apsLowerXRange);
-        apsLowerSeries.format.line.color = "red"; // Set the line color to purple
+        apsLowerSeries.format.line.color = palette.aps;
         apsLowerSeries.format.line.lineStyle = Excel.ChartLineStyle.dash; // Set the line style to dashed
         apsLowerSeries.format.line.weight = 1; // Set the line weight
         apsLowerSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
       } // if apsData
 
+      if (this.ciBands !== null && model.regressionFit === null) {
+        // Each confidence interval is drawn as a band enclosing the line.
+        // Not drawn for the regression method where the lines are sloped.
+        const bands = [
+          {
+            name: "Mean Difference CI",
+            lcl: this.ciBands.biasLCL,
+            ucl: this.ciBands.biasUCL,
+            color: palette.ci,
+          },
+          {
+            name: "Upper LoA CI",
+            lcl: this.ciBands.upperLoaLCL,
+            ucl: this.ciBands.upperLoaUCL,
+            color: palette.loaCi,
+          },
+          {
+            name: "Lower LoA CI",
+            lcl: this.ciBands.lowerLoaLCL,
+            ucl: this.ciBands.lowerLoaUCL,
+            color: palette.loaCi,
+          },
+        ];
+        for (let i = 0; i < bands.length; i++) {
+          const band = this.getConfidenceBandData(
+            model.minX,
+            model.maxX,
+            bands[i].lcl,
+            bands[i].ucl
+          );
+          const bandXRange = chartData
+            .getOffsetRange(1, offset + 10 + 2 * i)
+            .getAbsoluteResizedRange(band.bandX.length, 1);
+          const bandYRange = chartData
+            .getOffsetRange(1, offset + 11 + 2 * i)
+            .getAbsoluteResizedRange(band.bandY.length, 1);
+          bandXRange.values = band.bandX;
+          bandYRange.values = band.bandY;
+
+          const bandSeries = chart.series.add(bands[i].name);
+          bandSeries.setValues(bandYRange);
+          bandSeries.setXAxisValues(bandXRange);
+          bandSeries.format.line.color = bands[i].color;
+          bandSeries.format.line.lineStyle = Excel.ChartLineStyle.continuous;
+          bandSeries.format.line.weight = 1;
+          bandSeries.markerStyle = Excel.ChartMarkerStyle.none;
+        }
+        await context.sync();
+      } // if ciBands
+
       // Scale value axis from -0.5 to 0.5 if the difference type is relative
-      if (this.diffType === "rel") {
-        chart.axes.valueAxis.minimum = -0.5;
-        chart.axes.valueAxis.maximum = 0.5;
-      }
+      const relative = this.diffType === "rel";
+      applyChartStyle(chart, this.options.blandAltman, this.options.units, {
+        title: "Difference Chart",
+        xTitle: headers[0], //Mean
+        yTitle: headers[1], //Difference or Relative Difference
+        xUnits: true,
+        yUnits: !relative,
+        yMin: relative ? -0.5 : undefined,
+        yMax: relative ? 0.5 : undefined,
+      });
 
       // Set the chart position
       if (this.outputRange !== "") {
@@ -440,6 +715,9 @@ class ExcelRegressionChart {
   private apsRel: number;
   private chartDataRange: string;
   private outputRange: string;
+  private ciBand: ConfidenceBand | null; // Confidence band to draw around the regression line
+  private options: ChartOptions;
+  readonly name: string; // Chart name
 
   constructor(
     x: number[],
@@ -449,7 +727,9 @@ class ExcelRegressionChart {
     apsAbs: number,
     apsRel: number,
     chartDataRange: string,
-    outputRange = ""
+    outputRange = "",
+    ciBand: ConfidenceBand | null = null,
+    options: ChartOptions = defaultChartOptions()
   ) {
     //console.log("RegressionChart initialized");
     this.x = x; // Array of numbers
@@ -460,6 +740,9 @@ class ExcelRegressionChart {
     this.apsRel = apsRel; // Relative total error specification
     this.chartDataRange = chartDataRange; // Cell range for chart data
     this.outputRange = outputRange; // Cell range for output
+    this.ciBand = ciBand;
+    this.options = options; // Titles, axes and colours
+    this.name = chartName("Scatter", chartDataRange);
   }
 
   initializeModel(): {
@@ -614,22 +897,30 @@ class ExcelRegressionChart {
       await context.sync();
 
       // Create a scatter chart
-      const chart = currentWorksheet.charts.add(
+      const chart = await addOrRefreshChart(
+        context,
+        currentWorksheet,
+        this.name,
         Excel.ChartType.xyscatter,
-        chartData,
-        Excel.ChartSeriesBy.columns
+        chartData
       );
-      chart.title.text = "Scatter Chart";
+      const palette = this.options.palette;
       chart.legend.position = Excel.ChartLegendPosition.bottom;
       chart.legend.visible = true;
-      chart.axes.categoryAxis.title.text = "Reference Method";
-      chart.axes.valueAxis.title.text = "Comparison Method";
+      applyChartStyle(chart, this.options.regression, this.options.units, {
+        title: "Scatter Chart",
+        xTitle: "Reference Method",
+        yTitle: "Comparison Method",
+        xUnits: true,
+        yUnits: true,
+      });
+      setPointColor(chart.series.getItemAt(0), palette.points);
 
       // Add the identity line
       const identitySeries = chart.series.add("Identity Line");
       identitySeries.setValues(identityYRange);
       identitySeries.setXAxisValues(identityXRange);
-      identitySeries.format.line.color = "black"; // Set the line color to black
+      identitySeries.format.line.color = palette.identity;
       identitySeries.format.line.lineStyle = Excel.ChartLineStyle.continuous; // Set the line style to solid
       identitySeries.format.line.weight = 1; // Set the line weight
       identitySeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
@@ -637,7 +928,7 @@ class ExcelRegressionChart {
       const regressionSeries = chart.series.add("Regression Line");
       regressionSeries.setValues(regressionYRange);
       regressionSeries.setXAxisValues(regressionXRange);
-      regressionSeries.format.line.color = "blue"; // Set the line color to blue
+      regressionSeries.format.line.color = palette.regression;
       regressionSeries.format.line.lineStyle = Excel.ChartLineStyle.continuous; // Set the line style to solid
       regressionSeries.format.line.weight = 2; // Set the line weight
       regressionSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
@@ -662,7 +953,7 @@ class ExcelRegressionChart {
         const apsUpperSeries = chart.series.add("Upper APS");
         apsUpperSeries.setValues(apsUpperYRange);
         apsUpperSeries.setXAxisValues(apsUpperXRange);
-        apsUpperSeries.format.line.color = "red"; // Set the line color to purple
+        apsUpperSeries.format.line.color = palette.aps;
         apsUpperSeries.format.line.lineStyle = Excel.ChartLineStyle.dash; // Set the line style to dashed
         apsUpperSeries.format.line.weight = 1; // Set the line weight
         apsUpperSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
@@ -685,12 +976,36 @@ class ExcelRegressionChart {
         const apsLowerSeries = chart.series.add("Lower APS");
         apsLowerSeries.setValues(apsLowerYRange);
         apsLowerSeries.setXAxisValues(apsLowerXRange);
-        apsLowerSeries.format.line.color = "red"; // Set the line color to purple
+        apsLowerSeries.format.line.color = palette.aps;
         apsLowerSeries.format.line.weight = 1; // Set the line weight
         apsLowerSeries.format.line.lineStyle = Excel.ChartLineStyle.dash; // Set the line style to dashed
         apsLowerSeries.markerStyle = Excel.ChartMarkerStyle.none; // Hide the markers
       } // if apsData
 
+      // Add the confidence band as dashed lines either side of the regression line
+      const band = this.ciBand;
+      if (band !== null) {
+        const nPoints = band.x.length;
+        const bandRange = chartData
+          .getOffsetRange(10, offset + 8)
+          .getAbsoluteResizedRange(nPoints, 3);
+        bandRange.values = band.x.map((x0, i) => [x0, band.lower[i], band.upper[i]]);
+        const bandXRange = bandRange.getAbsoluteResizedRange(nPoints, 1);
+        const bandNames = ["Lower Confidence Band", "Upper Confidence Band"];
+        for (let i = 0; i < bandNames.length; i++) {
+          const bandSeries = chart.series.add(bandNames[i]);
+          bandSeries.setValues(
+            bandRange.getOffsetRange(0, i + 1).getAbsoluteResizedRange(nPoints, 1)
+          );
+          bandSeries.setXAxisValues(bandXRange);
+          bandSeries.format.line.color = palette.regression;
+          bandSeries.format.line.lineStyle = Excel.ChartLineStyle.dash;
+          bandSeries.format.line.weight = 1;
+          bandSeries.markerStyle = Excel.ChartMarkerStyle.none;
+        }
+        await context.sync();
+      } // if ciBand
+
       // Set the chart position
       if (this.outputRange !== "") {
         //console.log(`Setting chart position to ${this.outputRange}`);
@@ -702,5 +1017,307 @@ class ExcelRegressionChart {
   }
 } //ExcelRegressionChart
 
+class ExcelResidualChart {
+  private x: number[];
+  private diagnostics: ResidualDiagnostics;
+  private chartDataRange: string;
+  private outputRange: string;
+  private options: ChartOptions;
+  readonly name: string; // Chart name
+
+  /**
+   * Chart of the standardized residuals against the reference method results.
+   * Flagged residuals are highlighted and the flag limits are drawn as lines.
+   *
+   * The residuals are written to the chart data range to the right of the
+   * Bland-Altman and regression chart data.
+   *
+   * @param x reference method results
+   * @param diagnostics residuals for each sample
+   * @param chartDataRange top left cell of the chart data
+   * @param outputRange the chart is positioned immediately to the right of this range
+   * @param options titles, axes and colours
+   */
+  constructor(
+    x: number[],
+    diagnostics: ResidualDiagnostics,
+    chartDataRange: string,
+    outputRange = "",
+    options: ChartOptions = defaultChartOptions()
+  ) {
+    this.x = x;
+    this.diagnostics = diagnostics;
+    this.chartDataRange = chartDataRange;
+    this.outputRange = outputRange;
+    this.options = options;
+    this.name = chartName("Residual", chartDataRange);
+  }
+
+  initializeModel(): {
+    data: ChartRow[];
+    limitData: ChartRow[];
+  } {
+    const minX = Math.min(...this.x);
+    const maxX = Math.max(...this.x);
+    const limit = this.diagnostics.limit;
+    const data: ChartRow[] = [["X", "Standardized Residual", "Flagged", "Residual"]];
+    for (let i = 0; i < this.x.length; i++) {
+      data.push([
+        this.x[i],
+        this.diagnostics.standardized[i],
+        this.diagnostics.flagged[i] ? this.diagnostics.standardized[i] : "",
+        this.diagnostics.residuals[i],
+      ]);
+    }
+    // Zero line and flag limits
+    const limitData: ChartRow[] = [
+      ["X", "Zero", "Upper Limit", "Lower Limit"],
+      [minX, 0, limit, -limit],
+      [maxX, 0, limit, -limit],
+    ];
+    return { data: data, limitData: limitData };
+  }
+
+  /** Create Residual Chart */
+  async createChart() {
+    await Excel.run(async (context) => {
+      const model = this.initializeModel();
+
+      const currentWorksheet = context.workbook.worksheets.getActiveWorksheet();
+
+      // Residual data starts 20 columns to the right of the chart data cell
+      const offset = 20;
+      const origin = currentWorksheet.getRange(this.chartDataRange).getCell(0, 0);
+      const chartData = origin
+        .getOffsetRange(0, offset)
+        .getAbsoluteResizedRange(model.data.length, model.data[0].length);
+      chartData.values = model.data;
+      const limitRange = origin
+        .getOffsetRange(0, offset + 4)
+        .getAbsoluteResizedRange(model.limitData.length, model.limitData[0].length);
+      limitRange.values = model.limitData;
+      await context.sync();
+
+      // Create a scatter chart of the standardized residuals
+      const chart = await addOrRefreshChart(
+        context,
+        currentWorksheet,
+        this.name,
+        Excel.ChartType.xyscatter,
+        chartData.getAbsoluteResizedRange(model.data.length, 2)
+      );
+      const palette = this.options.palette;
+      chart.legend.position = Excel.ChartLegendPosition.bottom;
+      chart.legend.visible = true;
+      applyChartStyle(chart, this.options.residual, this.options.units, {
+        title: "Residual Chart",
+        xTitle: "Reference Method",
+        yTitle: "Standardized Residual",
+        xUnits: true,
+        yUnits: false,
+      });
+      setPointColor(chart.series.getItemAt(0), palette.points);
+
+      // Highlight the flagged residuals
+      const n = model.data.length - 1;
+      const flaggedSeries = chart.series.add("Flagged Residual");
+      flaggedSeries.setValues(chartData.getOffsetRange(1, 2).getAbsoluteResizedRange(n, 1));
+      flaggedSeries.setXAxisValues(chartData.getOffsetRange(1, 0).getAbsoluteResizedRange(n, 1));
+      flaggedSeries.format.line.lineStyle = Excel.ChartLineStyle.none;
+      flaggedSeries.markerStyle = Excel.ChartMarkerStyle.circle;
+      flaggedSeries.markerBackgroundColor = palette.flagged;
+      flaggedSeries.markerForegroundColor = palette.flagged;
+
+      // Zero line and flag limits
+      const lines = [
+        { name: "Zero", color: palette.identity, style: Excel.ChartLineStyle.continuous },
+        { name: "Upper Limit", color: palette.flagged, style: Excel.ChartLineStyle.dash },
+        { name: "Lower Limit", color: palette.flagged, style: Excel.ChartLineStyle.dash },
+      ];
+      const lineX = limitRange.getOffsetRange(1, 0).getAbsoluteResizedRange(2, 1);
+      for (let i = 0; i < lines.length; i++) {
+        const lineSeries = chart.series.add(lines[i].name);
+        lineSeries.setValues(limitRange.getOffsetRange(1, i + 1).getAbsoluteResizedRange(2, 1));
+        lineSeries.setXAxisValues(lineX);
+        lineSeries.format.line.color = lines[i].color;
+        lineSeries.format.line.lineStyle = lines[i].style;
+        lineSeries.format.line.weight = 1;
+        lineSeries.markerStyle = Excel.ChartMarkerStyle.none;
+      }
+      await context.sync();
+
+      // Set the chart position beside the output range
+      if (this.outputRange !== "") {
+        const besideRange = currentWorksheet.getRange(this.outputRange);
+        besideRange.load(["columnCount"]);
+        await context.sync();
+        const chartRange = besideRange.getOffsetRange(0, besideRange.columnCount);
+        chart.setPosition(chartRange.getCell(0, 0), chartRange.getLastCell());
+        await context.sync();
+      }
+    });
+  }
+} //ExcelResidualChart
+
+class ExcelMountainPlotChart {
+  private comparisons: MountainComparison[];
+  private diffType: string;
+  private apsAbs: number;
+  private apsRel: number;
+  private chartDataRange: string;
+  private outputRange: string;
+  private options: ChartOptions;
+  readonly name: string; // Chart name
+
+  /**
+   * Mountain plot of the folded percentiles of the differences. Several
+   * comparisons may be overlaid. The APS is drawn as vertical lines at plus
+   * and minus the absolute APS for absolute differences, or the relative APS
+   * for relative differences.
+   *
+   * The data are written to the chart data range to the right of the
+   * residual chart data.
+   *
+   * @param comparisons one or more comparisons to plot
+   * @param diffType "rel" for relative differences, otherwise absolute differences
+   * @param apsAbs absolute APS, or -1 if not specified
+   * @param apsRel relative APS as a fraction, or -1 if not specified
+   * @param chartDataRange top left cell of the chart data
+   * @param outputRange cell range over which the chart is displayed
+   * @param options titles, axes and colours
+   */
+  constructor(
+    comparisons: MountainComparison[],
+    diffType: string,
+    apsAbs: number,
+    apsRel: number,
+    chartDataRange: string,
+    outputRange = "",
+    options: ChartOptions = defaultChartOptions()
+  ) {
+    if (comparisons.length === 0) {
+      throw new Error("At least one comparison is required for the mountain plot.");
+    }
+    this.comparisons = comparisons;
+    this.diffType = diffType;
+    this.apsAbs = apsAbs;
+    this.apsRel = apsRel;
+    this.chartDataRange = chartDataRange;
+    this.outputRange = outputRange;
+    this.options = options;
+    this.name = chartName("Mountain", chartDataRange);
+  }
+
+  initializeModel(): {
+    series: { name: string; data: ChartRow[] }[];
+    aps: number | null;
+  } {
+    const series = this.comparisons.map((comparison) => {
+      const plot = mountainPlot(comparison.x, comparison.y, this.diffType);
+      const data: ChartRow[] = [["Difference", comparison.name]];
+      for (let i = 0; i < plot.differences.length; i++) {
+        data.push([plot.differences[i], plot.percentiles[i]]);
+      }
+      return { name: comparison.name, data: data };
+    });
+    let aps: number | null = null;
+    if (this.diffType === "rel" && this.apsRel > 0) {
+      aps = this.apsRel;
+    } else if (this.diffType !== "rel" && this.apsAbs > 0) {
+      aps = this.apsAbs;
+    }
+    return { series: series, aps: aps };
+  }
+
+  /** Create Mountain Plot */
+  async createChart() {
+    await Excel.run(async (context) => {
+      const model = this.initializeModel();
+
+      const currentWorksheet = context.workbook.worksheets.getActiveWorksheet();
+
+      // Mountain plot data starts 30 columns to the right of the chart data cell,
+      // with two columns for each comparison followed by the APS lines
+      const offset = 30;
+      const origin = currentWorksheet.getRange(this.chartDataRange).getCell(0, 0);
+      const ranges = model.series.map((series, i) => {
+        const range = origin
+          .getOffsetRange(0, offset + 2 * i)
+          .getAbsoluteResizedRange(series.data.length, 2);
+        range.values = series.data;
+        return range;
+      });
+      await context.sync();
+
+      const chart = await addOrRefreshChart(
+        context,
+        currentWorksheet,
+        this.name,
+        Excel.ChartType.xyscatterLinesNoMarkers,
+        ranges[0]
+      );
+      chart.legend.position = Excel.ChartLegendPosition.bottom;
+      chart.legend.visible = true;
+      applyChartStyle(chart, this.options.mountain, this.options.units, {
+        title: "Mountain Plot",
+        xTitle: this.diffType === "rel" ? "Relative Difference" : "Difference",
+        yTitle: "Folded Percentile",
+        xUnits: this.diffType !== "rel",
+        yUnits: false,
+        yMin: 0,
+        yMax: 50,
+      });
+
+      // Overlay the other comparisons
+      for (let i = 1; i < ranges.length; i++) {
+        const n = model.series[i].data.length - 1;
+        const series = chart.series.add(model.series[i].name);
+        series.setValues(ranges[i].getOffsetRange(1, 1).getAbsoluteResizedRange(n, 1));
+        series.setXAxisValues(ranges[i].getOffsetRange(1, 0).getAbsoluteResizedRange(n, 1));
+        series.markerStyle = Excel.ChartMarkerStyle.none;
+      }
+
+      if (model.aps !== null) {
+        const apsNames = ["Upper APS", "Lower APS"];
+        const apsData: ChartRow[] = [
+          [apsNames[0], "", apsNames[1], ""],
+          [model.aps, 0, -model.aps, 0],
+          [model.aps, 50, -model.aps, 50],
+        ];
+        const apsRange = origin
+          .getOffsetRange(0, offset + 2 * ranges.length)
+          .getAbsoluteResizedRange(apsData.length, 4);
+        apsRange.values = apsData;
+        for (let i = 0; i < 2; i++) {
+          const apsSeries = chart.series.add(apsNames[i]);
+          apsSeries.setValues(apsRange.getOffsetRange(1, 2 * i + 1).getAbsoluteResizedRange(2, 1));
+          apsSeries.setXAxisValues(apsRange.getOffsetRange(1, 2 * i).getAbsoluteResizedRange(2, 1));
+          apsSeries.format.line.color = this.options.palette.aps;
+          apsSeries.format.line.lineStyle = Excel.ChartLineStyle.dash;
+          apsSeries.format.line.weight = 1;
+          apsSeries.markerStyle = Excel.ChartMarkerStyle.none;
+        }
+      }
+      await context.sync();
+
+      // Set the chart position
+      if (this.outputRange !== "") {
+        const chartCell = this.outputRange.split(":");
+        chart.setPosition(chartCell[0], chartCell[1]);
+        await context.sync();
+      }
+    });
+  }
+} //ExcelMountainPlotChart
+
 // module exports
-export { ExcelBlandAltmanChart, ExcelRegressionChart };
+export {
+  CHART_NAME_PREFIX,
+  chartName,
+  deleteOrphanCharts,
+  MountainComparison,
+  ExcelBlandAltmanChart,
+  ExcelRegressionChart,
+  ExcelResidualChart,
+  ExcelMountainPlotChart,
+};
@@ -0,0 +1,166 @@
+/**
+ * Correlation coefficients for method comparison data.
+ *
+ * Pearson's r, Spearman's rho and Kendall's tau-b are calculated with two
+ * sided p values for the null hypothesis of no correlation. Confidence limits
+ * for r and rho use Fisher's z transformation, with the variance of z for rho
+ * inflated to 1.06 / (n - 3) (Fieller, Hartley and Pearson, 1957). The p value
+ * for tau uses the normal approximation to the distribution of Kendall's score
+ * with the variance corrected for ties.
+ *
+ * CLSI EP09 suggests that the range of the data is adequate for least squares
+ * and Deming regression when r is at least 0.975. For narrower ranges
+ * Passing-Bablok regression, or more samples over a wider range, should be used.
+ *
+ * Kendall MG. Rank Correlation Methods. 4th ed. London: Griffin; 1970.
+ *
+ * CLSI EP09c. Measurement Procedure Comparison and Bias Estimation Using
+ * Patient Samples. 3rd Edition. 2018.
+ *
+ * @author Douglas Chesher
+ */
+
+import { normal, studentt } from "jstat-esm";
+
+const RANGE_ADEQUACY_R = 0.975; // Minimum Pearson r for an adequate data range (EP09)
+
+/* Correlation coefficient with its test statistic */
+interface Correlation {
+  coefficient: number;
+  statistic: number; // t for r and rho, z for tau
+  p: number; // Two sided p value for no correlation
+  lcl: number; // NaN for tau
+  ucl: number;
+}
+
+/**
+ * Ranks of the values with ties given their average rank.
+ *
+ * @param arr array of values
+ * @returns ranks starting at 1
+ */
+function ranks(arr: number[]): number[] {
+  const order = arr.map((_, i) => i).sort((a, b) => arr[a] - arr[b]);
+  const result = new Array<number>(arr.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && arr[order[j + 1]] === arr[order[i]]) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k]] = rank;
+    i = j + 1;
+  }
+  return result;
+} //ranks
+
+function checkInput(x: number[], y: number[], minimum: number = 4): void {
+  if (x.length !== y.length || x.length < minimum) {
+    throw new Error(`Input arrays must have the same length, greater than ${minimum - 1}.`);
+  }
+}
+
+/* Product moment correlation with a t test and Fisher z confidence limits */
+function productMoment(x: number[], y: number[], zVariance: number, alpha: number): Correlation {
+  const n = x.length;
+  let mx = 0;
+  let my = 0;
+  for (let i = 0; i < n; i++) {
+    mx += x[i] / n;
+    my += y[i] / n;
+  }
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - mx) * (x[i] - mx);
+    syy += (y[i] - my) * (y[i] - my);
+    sxy += (x[i] - mx) * (y[i] - my);
+  }
+  const r = sxy / Math.sqrt(sxx * syy);
+  const t = r * Math.sqrt((n - 2) / (1 - r * r));
+  const z = Math.atanh(r);
+  const halfWidth = normal.inv(1 - alpha / 2, 0, 1) * Math.sqrt(zVariance / (n - 3));
+  return {
+    coefficient: r,
+    statistic: t,
+    p: 2 * (1 - studentt.cdf(Math.abs(t), n - 2)),
+    lcl: Math.tanh(z - halfWidth),
+    ucl: Math.tanh(z + halfWidth),
+  };
+}
+
+/**
+ * Pearson's product moment correlation coefficient.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param alpha for the confidence limits. Default is 0.05
+ * @returns r with confidence limits and p value
+ */
+function pearson(x: number[], y: number[], alpha: number = 0.05): Correlation {
+  checkInput(x, y);
+  return productMoment(x, y, 1, alpha);
+} //pearson
+
+/**
+ * Spearman's rank correlation coefficient.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param alpha for the confidence limits. Default is 0.05
+ * @returns rho with confidence limits and p value
+ */
+function spearman(x: number[], y: number[], alpha: number = 0.05): Correlation {
+  checkInput(x, y);
+  return productMoment(ranks(x), ranks(y), 1.06, alpha);
+} //spearman
+
+/**
+ * Kendall's tau-b rank correlation coefficient.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @returns tau with the normal approximation z statistic and p value
+ */
+function kendall(x: number[], y: number[]): Correlation {
+  checkInput(x, y, 3);
+  const n = x.length;
+  let score = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      score += Math.sign(x[j] - x[i]) * Math.sign(y[j] - y[i]);
+    }
+  }
+
+  // Sums over the groups of tied values
+  const tieSums = (arr: number[]): { t1: number; t2: number; t3: number; pairs: number } => {
+    const counts = new Map<number, number>();
+    for (const v of arr) counts.set(v, (counts.get(v) ?? 0) + 1);
+    let t1 = 0;
+    let t2 = 0;
+    let t3 = 0;
+    for (const t of counts.values()) {
+      t1 += t * (t - 1) * (2 * t + 5);
+      t2 += t * (t - 1);
+      t3 += t * (t - 1) * (t - 2);
+    }
+    return { t1: t1, t2: t2, t3: t3, pairs: t2 / 2 };
+  };
+  const tx = tieSums(x);
+  const ty = tieSums(y);
+  const n0 = (n * (n - 1)) / 2;
+  const variance =
+    (n * (n - 1) * (2 * n + 5) - tx.t1 - ty.t1) / 18 +
+    (tx.t2 * ty.t2) / (2 * n * (n - 1)) +
+    (tx.t3 * ty.t3) / (9 * n * (n - 1) * (n - 2));
+  const z = score / Math.sqrt(variance);
+  return {
+    coefficient: score / Math.sqrt((n0 - tx.pairs) * (n0 - ty.pairs)),
+    statistic: z,
+    p: 2 * (1 - normal.cdf(Math.abs(z), 0, 1)),
+    lcl: NaN,
+    ucl: NaN,
+  };
+} //kendall
+
+export { RANGE_ADEQUACY_R, Correlation, ranks, pearson, spearman, kendall };
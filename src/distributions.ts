@@ -0,0 +1,78 @@
+/**
+ * Probability distributions not adequately provided by jStat.
+ *
+ * The jStat noncentral t distribution function loses accuracy for large
+ * noncentrality parameters, which occur when calculating exact confidence
+ * intervals for limits of agreement and reference limits from large samples.
+ *
+ * @author Douglas Chesher
+ */
+
+import { normal, chisquare } from "jstat-esm";
+
+const SIMPSON_INTERVALS = 1000; // must be even
+const MAX_ITER = 200;
+
+/**
+ * Cumulative distribution function of the noncentral t distribution.
+ *
+ * If V has a chi-square distribution with df degrees of freedom then
+ * P(T <= t) = E[ Phi(t * sqrt(V / df) - ncp) ], which is evaluated by
+ * Simpson's rule over the central range of the chi-square distribution.
+ *
+ * @param t value
+ * @param df degrees of freedom
+ * @param ncp noncentrality parameter
+ * @returns probability
+ */
+function noncentralTCdf(t: number, df: number, ncp: number): number {
+  const lower = chisquare.inv(1e-12, df);
+  const upper = chisquare.inv(1 - 1e-12, df);
+  const h = (upper - lower) / SIMPSON_INTERVALS;
+  let sum = 0;
+  for (let i = 0; i <= SIMPSON_INTERVALS; i++) {
+    const v = lower + i * h;
+    const weight = i === 0 || i === SIMPSON_INTERVALS ? 1 : i % 2 === 1 ? 4 : 2;
+    sum += weight * normal.cdf(t * Math.sqrt(v / df) - ncp, 0, 1) * chisquare.pdf(v, df);
+  }
+  return Math.min(1, Math.max(0, (sum * h) / 3));
+} //noncentralTCdf
+
+/**
+ * Quantile function of the noncentral t distribution calculated by bisection.
+ *
+ * @param p probability
+ * @param df degrees of freedom
+ * @param ncp noncentrality parameter
+ * @returns value of t such that P(T <= t) = p
+ */
+function noncentralTInv(p: number, df: number, ncp: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new RangeError(`Probability must be between 0 and 1. p=${p}`);
+  }
+  // Bracket the quantile using the approximate standard deviation
+  const sd = Math.sqrt(1 + (ncp * ncp) / (2 * df));
+  let lower = ncp - sd;
+  let upper = ncp + sd;
+  let iter = 0;
+  while (noncentralTCdf(lower, df, ncp) > p && iter < MAX_ITER) {
+    lower -= upper - lower;
+    iter++;
+  }
+  while (noncentralTCdf(upper, df, ncp) < p && iter < MAX_ITER) {
+    upper += upper - lower;
+    iter++;
+  }
+  for (let i = 0; i < MAX_ITER; i++) {
+    const mid = (lower + upper) / 2;
+    if (noncentralTCdf(mid, df, ncp) < p) {
+      lower = mid;
+    } else {
+      upper = mid;
+    }
+    if (upper - lower < 1e-10 * Math.max(1, Math.abs(mid))) break;
+  }
+  return (lower + upper) / 2;
+} //noncentralTInv
+
+export { noncentralTCdf, noncentralTInv };
@@ -1,8 +1,57 @@
 /**
  * Custom Functions
  */
-import { boxCox } from "../reference_intervals";
+import { boxCox, boxCoxInverse, ref_limit, PARAMETRIC, ROBUST } from "../reference_intervals";
 import { ShapiroWilkW } from "../shapiro-wilk";
+import {
+  MethodCompRegression,
+  CI_METHOD,
+  BOOTSTRAP_METHODS,
+  REG_METHOD,
+  DEFAULT_ALPHA,
+  DEFAULT_ERROR_RATIO,
+  DEFAULT_ITER_MAX,
+  DEFAULT_THRESHOLD,
+} from "../regression";
+import { mulberry32, parseSeed } from "../random";
+
+// Custom functions run on Excel's calculation thread, so they take fewer bootstrap
+// samples by default than the task panes.
+const FUNCTION_BOOTSTRAP_N = 1000;
+
+// Confidence interval methods accepted by the custom functions for each regression method
+const FUNCTION_CI_METHODS: { [regressionMethod: string]: string[] } = {
+  [REG_METHOD.PABA]: [CI_METHOD.DEFAULT, CI_METHOD.BOOTSTRAP, CI_METHOD.BCA],
+  [REG_METHOD.DEMING]: [
+    CI_METHOD.DEFAULT,
+    CI_METHOD.ANALYTIC,
+    CI_METHOD.JACKKNIFE,
+    CI_METHOD.BOOTSTRAP,
+    CI_METHOD.BCA,
+  ],
+  [REG_METHOD.WDEMING]: [
+    CI_METHOD.DEFAULT,
+    CI_METHOD.ANALYTIC,
+    CI_METHOD.JACKKNIFE,
+    CI_METHOD.BOOTSTRAP,
+    CI_METHOD.BCA,
+  ],
+  [REG_METHOD.OLS]: [CI_METHOD.DEFAULT, CI_METHOD.JACKKNIFE, CI_METHOD.BOOTSTRAP, CI_METHOD.BCA],
+  [REG_METHOD.WOLS]: [CI_METHOD.DEFAULT, CI_METHOD.JACKKNIFE, CI_METHOD.BOOTSTRAP, CI_METHOD.BCA],
+};
+
+/**
+ * Check the number of bootstrap samples passed to a custom function.
+ *
+ * @param bootstrapN number of bootstrap samples
+ * @returns number of bootstrap samples
+ */
+function checkBootstrapN(bootstrapN: number): number {
+  if (!(Number.isInteger(bootstrapN) && bootstrapN > 0)) {
+    throw new RangeError("Number of bootstrap samples must be a positive integer.");
+  }
+  return bootstrapN;
+}
 
 /**
  * Inverse of the Box-Cox transformation.
@@ -13,13 +62,7 @@ import { ShapiroWilkW } from "../shapiro-wilk";
  * @returns {number} inverse of the Box-Cox transformation
  */
 export function boxcoxinv(x: number, lambda: number): number {
-  let y: number;
-  if (lambda != 0) {
-    y = Math.exp(Math.log(lambda * x + 1) / lambda);
-  } else {
-    y = Math.exp(x);
-  }
-  return y;
+  return boxCoxInverse(x, lambda);
 }
 
 /**
@@ -34,6 +77,52 @@ export function boxcox(x: number, lambda: number): number {
   return boxCox(x, lambda);
 }
 
+/**
+ * Reference interval with confidence limits for each reference limit.
+ *
+ * @customfunction REFLIMIT
+ * @param {any[][]} x reference population results
+ * @param {string} [method] "parametric" (default), "boxcox", "np" or "robust"
+ * @param {number} [alpha] proportion outside the reference interval. Default is 0.05
+ * @param {number} [confAlpha] significance level for the confidence limits. Default is 0.1
+ * @param {number} [bootstrapN] number of bootstrap samples for the robust method. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} lower and upper reference limits with their confidence limits,
+ * followed by lambda for the Box-Cox method or the seed used by the robust method
+ */
+export function reflimit(
+  x: any[][],
+  method?: string,
+  alpha?: number,
+  confAlpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  const data: number[] = x.flat().filter((value) => typeof value === "number");
+  const riMethod = (method ?? PARAMETRIC).toLowerCase();
+  const seedUsed = parseSeed(String(seed ?? ""));
+  const res = ref_limit(
+    data,
+    alpha ?? 0.05,
+    confAlpha ?? 0.1,
+    riMethod,
+    checkBootstrapN(bootstrapN ?? FUNCTION_BOOTSTRAP_N),
+    mulberry32(seedUsed)
+  );
+  const output: any[][] = [
+    ["Ref Limit", "LCL", "UCL"],
+    [res.lowerLimit, res.lowerLimitCI[0], res.lowerLimitCI[1]],
+    [res.upperLimit, res.upperLimitCI[0], res.upperLimitCI[1]],
+  ];
+  if (res.lambda !== undefined) {
+    output.push(["Lambda", res.lambda, ""]);
+  }
+  if (riMethod === ROBUST) {
+    output.push(["Seed", seedUsed, ""]);
+  }
+  return output;
+}
+
 /**
  * Shapiro-Wilk W statistic for normality.
  *
@@ -80,7 +169,7 @@ export function dixonreed(x: number[][]): any[][] {
     //Check for low outliers
     r = (arr[1] - arr[0]) / (arr[n] - arr[0]);
     ratios.push(r);
-    outliers.push(r > 1/3 ? arr[n]: undefined);
+    outliers.push(r > 1/3 ? arr[0]: undefined);
     //Check for high outliers
     r = (arr[n] - arr[n-1]) / (arr[n] - arr[0]);
     ratios.push(r);
@@ -88,3 +177,270 @@ export function dixonreed(x: number[][]): any[][] {
   }
   return [["Low", "High"],[ratios[0],ratios[1]],[outliers[0], outliers[1]]];
 }
+
+/**
+ * Read the numeric x,y pairs from two single column ranges. Rows where
+ * either value is blank or not a number are skipped.
+ *
+ * @param x values from the reference method
+ * @param y values from the comparison method
+ * @returns paired arrays of equal length
+ */
+function pairedValues(x: any[][], y: any[][]): { x: number[]; y: number[] } {
+  const xArr: number[] = [];
+  const yArr: number[] = [];
+  const xFlat = x.flat();
+  const yFlat = y.flat();
+  if (xFlat.length !== yFlat.length) {
+    throw new Error("X and Y ranges must have the same number of cells.");
+  }
+  for (let i = 0; i < xFlat.length; i++) {
+    if (typeof xFlat[i] === "number" && typeof yFlat[i] === "number") {
+      xArr.push(xFlat[i]);
+      yArr.push(yFlat[i]);
+    }
+  }
+  return { x: xArr, y: yArr };
+}
+
+/**
+ * Run a method comparison regression and format the results as
+ * a 3x5 array for spilling into the worksheet.
+ *
+ * @param x values from the reference method
+ * @param y values from the comparison method
+ * @param regressionMethod one of the REG_METHOD values
+ * @param ciMethod one of the FUNCTION_CI_METHODS values of the regression method
+ * @param alpha significance level for the confidence limits
+ * @param errorRatio error ratio for Deming and Weighted Deming regression
+ * @param bootstrapN number of bootstrap samples
+ * @param seed integer seed for the bootstrap. If undefined a seed is generated
+ * @returns array with slope and intercept, their confidence limits and standard errors,
+ * followed by the seed used by the bootstrap methods, the analysis of variance for least
+ * squares regression or the Kendall's tau test for Passing-Bablok regression
+ */
+function methodCompRegression(
+  x: any[][],
+  y: any[][],
+  regressionMethod: string,
+  ciMethod: string = CI_METHOD.DEFAULT,
+  alpha: number = DEFAULT_ALPHA,
+  errorRatio: number = DEFAULT_ERROR_RATIO,
+  bootstrapN: number = FUNCTION_BOOTSTRAP_N,
+  seed?: number
+): any[][] {
+  const method = ciMethod.toLowerCase();
+  if (method === CI_METHOD.TBOOT) {
+    // A jackknife of every bootstrap sample is too slow for the calculation thread
+    throw new Error("The Student-t bootstrap is only available in the Regression pane.");
+  }
+  const ciMethods = FUNCTION_CI_METHODS[regressionMethod] ?? [];
+  if (!ciMethods.includes(method)) {
+    throw new Error(
+      `Unknown confidence interval method: ${ciMethod}. Use one of ${ciMethods.join(", ")}.`
+    );
+  }
+  const seedUsed = parseSeed(String(seed ?? ""));
+  const data = pairedValues(x, y);
+  const regression = new MethodCompRegression(
+    regressionMethod,
+    errorRatio,
+    DEFAULT_ITER_MAX,
+    DEFAULT_THRESHOLD,
+    alpha,
+    method,
+    checkBootstrapN(bootstrapN),
+    mulberry32(seedUsed)
+  );
+  const res = regression.calculate(data.x, data.y);
+  const output: any[][] = [
+    ["", "Coefficient", "LCL", "UCL", "SE"],
+    ["Slope", res.slope, res.slopeLCL, res.slopeUCL, res.slopeSE],
+    ["Intercept", res.intercept, res.interceptLCL, res.interceptUCL, res.interceptSE],
+  ];
+  if (BOOTSTRAP_METHODS.includes(method)) {
+    output.push(["Seed", seedUsed, "", "", ""]);
+  }
+  if (res.kendall !== undefined) {
+    output.push(["Kendall", "Tau", "z", "p", "Correlation"]);
+    output.push([
+      "",
+      res.kendall.tau,
+      res.kendall.statistic,
+      res.kendall.p,
+      res.kendall.positive ? "Positive" : "Negative",
+    ]);
+  }
+  if (res.anova !== undefined) {
+    output.push(["ANOVA", "R Squared", "Sy.x", "F", "p"]);
+    output.push(["", res.anova.rSquared, res.anova.syx, res.anova.f, res.anova.p]);
+  }
+  return output;
+}
+
+/**
+ * Passing-Bablok regression.
+ *
+ * @customfunction PABA
+ * @param {any[][]} x results from the reference method
+ * @param {any[][]} y results from the comparison method
+ * @param {string} [ciMethod] "default" (non-parametric), "bootstrap" or "bca"
+ * @param {number} [alpha] significance level for the confidence limits. Default is 0.05
+ * @param {number} [bootstrapN] number of bootstrap samples. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} slope and intercept with confidence limits and Kendall's tau
+ */
+export function paba(
+  x: any[][],
+  y: any[][],
+  ciMethod?: string,
+  alpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  return methodCompRegression(
+    x,
+    y,
+    REG_METHOD.PABA,
+    ciMethod ?? CI_METHOD.DEFAULT,
+    alpha ?? DEFAULT_ALPHA,
+    DEFAULT_ERROR_RATIO,
+    bootstrapN ?? FUNCTION_BOOTSTRAP_N,
+    seed
+  );
+}
+
+/**
+ * Deming regression.
+ *
+ * @customfunction DEMING
+ * @param {any[][]} x results from the reference method
+ * @param {any[][]} y results from the comparison method
+ * @param {number} [errorRatio] ratio of the measurement error variances. Default is 1
+ * @param {string} [ciMethod] "default" (jackknife), "analytic", "bootstrap" or "bca"
+ * @param {number} [alpha] significance level for the confidence limits. Default is 0.05
+ * @param {number} [bootstrapN] number of bootstrap samples. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} slope and intercept with confidence limits and standard errors
+ */
+export function deming(
+  x: any[][],
+  y: any[][],
+  errorRatio?: number,
+  ciMethod?: string,
+  alpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  return methodCompRegression(
+    x,
+    y,
+    REG_METHOD.DEMING,
+    ciMethod ?? CI_METHOD.DEFAULT,
+    alpha ?? DEFAULT_ALPHA,
+    errorRatio ?? DEFAULT_ERROR_RATIO,
+    bootstrapN ?? FUNCTION_BOOTSTRAP_N,
+    seed
+  );
+}
+
+/**
+ * Weighted Deming regression.
+ *
+ * @customfunction WDEMING
+ * @param {any[][]} x results from the reference method
+ * @param {any[][]} y results from the comparison method
+ * @param {number} [errorRatio] ratio of the measurement error variances. Default is 1
+ * @param {string} [ciMethod] "default" (jackknife), "analytic", "bootstrap" or "bca"
+ * @param {number} [alpha] significance level for the confidence limits. Default is 0.05
+ * @param {number} [bootstrapN] number of bootstrap samples. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} slope and intercept with confidence limits and standard errors
+ */
+export function wdeming(
+  x: any[][],
+  y: any[][],
+  errorRatio?: number,
+  ciMethod?: string,
+  alpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  return methodCompRegression(
+    x,
+    y,
+    REG_METHOD.WDEMING,
+    ciMethod ?? CI_METHOD.DEFAULT,
+    alpha ?? DEFAULT_ALPHA,
+    errorRatio ?? DEFAULT_ERROR_RATIO,
+    bootstrapN ?? FUNCTION_BOOTSTRAP_N,
+    seed
+  );
+}
+
+/**
+ * Ordinary least squares regression, for when the reference method has
+ * negligible error.
+ *
+ * @customfunction OLS
+ * @param {any[][]} x results from the reference method
+ * @param {any[][]} y results from the comparison method
+ * @param {string} [ciMethod] "default" (parametric), "jackknife", "bootstrap" or "bca"
+ * @param {number} [alpha] significance level for the confidence limits. Default is 0.05
+ * @param {number} [bootstrapN] number of bootstrap samples. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} slope and intercept with confidence limits, standard errors and ANOVA
+ */
+export function ols(
+  x: any[][],
+  y: any[][],
+  ciMethod?: string,
+  alpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  return methodCompRegression(
+    x,
+    y,
+    REG_METHOD.OLS,
+    ciMethod ?? CI_METHOD.DEFAULT,
+    alpha ?? DEFAULT_ALPHA,
+    DEFAULT_ERROR_RATIO,
+    bootstrapN ?? FUNCTION_BOOTSTRAP_N,
+    seed
+  );
+}
+
+/**
+ * Weighted least squares regression with weights of 1/x^2, for when the
+ * reference method has negligible error and the error of the comparison
+ * method is proportional to concentration.
+ *
+ * @customfunction WOLS
+ * @param {any[][]} x results from the reference method
+ * @param {any[][]} y results from the comparison method
+ * @param {string} [ciMethod] "default" (parametric), "jackknife", "bootstrap" or "bca"
+ * @param {number} [alpha] significance level for the confidence limits. Default is 0.05
+ * @param {number} [bootstrapN] number of bootstrap samples. Default is 1000
+ * @param {number} [seed] integer seed for the bootstrap. If omitted a seed is generated
+ * @returns {any[][]} slope and intercept with confidence limits, standard errors and ANOVA
+ */
+export function wols(
+  x: any[][],
+  y: any[][],
+  ciMethod?: string,
+  alpha?: number,
+  bootstrapN?: number,
+  seed?: number
+): any[][] {
+  return methodCompRegression(
+    x,
+    y,
+    REG_METHOD.WOLS,
+    ciMethod ?? CI_METHOD.DEFAULT,
+    alpha ?? DEFAULT_ALPHA,
+    DEFAULT_ERROR_RATIO,
+    bootstrapN ?? FUNCTION_BOOTSTRAP_N,
+    seed
+  );
+}
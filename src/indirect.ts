@@ -0,0 +1,385 @@
+/**
+ * Indirect reference intervals from routine patient data.
+ *
+ * Routine results are a mixture of a non-pathological distribution, which
+ * dominates the centre of the data, and pathological results, which are
+ * mostly in the tails. The non-pathological distribution is assumed to be
+ * normal after a Box-Cox transformation. It is estimated by truncated maximum
+ * likelihood in the style of the TML and kosmic methods:
+ *
+ * 1. Candidate truncation intervals are formed from the data quantiles, with
+ *    the lower truncation point at 0 to 25% and the upper at 75 to 100%.
+ * 2. For each interval, lambda, mu and sigma are estimated by maximising the
+ *    likelihood of the data within the interval under a truncated normal
+ *    distribution of the transformed data. Lambda is found by golden section
+ *    search of the profile likelihood and mu and sigma by Nelder-Mead.
+ *    Lambda is restricted to 0 (log-normal) to 1 (normal), which covers most
+ *    analytes and prevents extreme transformations of narrow intervals.
+ * 3. The fit is judged by the Kolmogorov-Smirnov distance between the fitted
+ *    distribution and the data within the interval, scaled by the square
+ *    root of the number of values. The widest interval with an acceptable
+ *    fit (below the 5% critical value of 1.36) is chosen, as narrow
+ *    intervals determine lambda poorly. If no fit is acceptable, the best
+ *    fit is chosen.
+ *
+ * The reference limits are the back-transformed quantiles mu +/- z sigma.
+ *
+ * Large data sets are reduced to at most MAX_BINS groups of equal count,
+ * represented by their mean, so that tens of thousands of results can be
+ * analysed in a few seconds. Laboratory results are usually rounded, in which
+ * case the distinct values are used and no information is lost.
+ *
+ * Arzideh F, Wosniok W, Gurr E, Hinsch W, Schumann G, Weinstock N, Haeckel R.
+ * A plea for intra-laboratory reference limits. Part 2. A bimodal
+ * retrospective concept for determining reference limits from intra-laboratory
+ * databases demonstrated by catalytic activity concentrations of enzymes.
+ * Clin Chem Lab Med. 2007;45(8):1043-1057.
+ *
+ * Zierk J, Arzideh F, Kapsner LA, Prokosch HU, Metzler M, Rauh M. Reference
+ * interval estimation from mixed distributions using truncation points and the
+ * Box-Cox transformation (kosmic). Clin Chem. 2020;66(1):56-64.
+ *
+ * @author Douglas Chesher
+ */
+
+import { normal } from "jstat-esm";
+import { boxCox, boxCoxInverse } from "./reference_intervals";
+import { ProgressCallback, throttleProgress } from "./progress";
+
+const INDIRECT = "indirect";
+
+const MIN_DATA = 200; // Minimum number of results for the indirect method
+const MAX_BINS = 2000; // Larger data sets are grouped
+const TRUNCATION_STEP = 0.025; // Spacing of the candidate truncation quantiles
+const MAX_LOWER_TRUNCATION = 0.25;
+const MIN_UPPER_TRUNCATION = 0.75;
+const LAMBDA_RANGE = [0, 1]; // Log-normal to normal
+const LAMBDA_TOLERANCE = 0.005;
+const KS_CRITICAL = 1.36; // Kolmogorov-Smirnov critical value for alpha = 0.05
+
+/* Indirect reference interval */
+interface IndirectReferenceInterval {
+  lowerLimit: number;
+  upperLimit: number;
+  lambda: number; // Box-Cox lambda of the non-pathological distribution
+  mu: number; // Mean and SD of the transformed non-pathological distribution
+  sigma: number;
+  truncation: [number, number]; // Lower and upper truncation points in original units
+  fraction: number; // Estimated proportion of non-pathological results
+  cost: number; // Scaled Kolmogorov-Smirnov distance of the chosen fit
+  n: number;
+}
+
+/* Distinct or grouped values with their counts, in ascending order */
+interface WeightedData {
+  values: number[];
+  weights: number[];
+}
+
+/* Truncated normal fit of the transformed data for one lambda */
+interface TruncatedFit {
+  lambda: number;
+  mu: number;
+  sigma: number;
+  logLikelihood: number;
+}
+
+/**
+ * Reduce sorted data to distinct values with their counts. If there are more
+ * than maxBins distinct values, the data are split into maxBins groups of
+ * equal count represented by their mean.
+ *
+ * @param sorted data in ascending order
+ * @param maxBins maximum number of values returned
+ * @returns weighted values
+ */
+function compress(sorted: number[], maxBins: number = MAX_BINS): WeightedData {
+  const values: number[] = [];
+  const weights: number[] = [];
+  for (const x of sorted) {
+    if (values.length > 0 && values[values.length - 1] === x) {
+      weights[weights.length - 1]++;
+    } else {
+      values.push(x);
+      weights.push(1);
+    }
+  }
+  if (values.length <= maxBins) {
+    return { values: values, weights: weights };
+  }
+  const grouped: WeightedData = { values: [], weights: [] };
+  const n = sorted.length;
+  for (let k = 0; k < maxBins; k++) {
+    const start = Math.floor((k * n) / maxBins);
+    const end = Math.floor(((k + 1) * n) / maxBins);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += sorted[i];
+    grouped.values.push(sum / (end - start));
+    grouped.weights.push(end - start);
+  }
+  return grouped;
+} //compress
+
+/* Minimise a function of two variables by the Nelder-Mead simplex method */
+function nelderMead2(
+  f: (p: number[]) => number,
+  start: number[],
+  step: number[],
+  maxIter = 200,
+  tolerance = 1e-8
+): number[] {
+  let simplex = [start, [start[0] + step[0], start[1]], [start[0], start[1] + step[1]]];
+  let fx = simplex.map(f);
+  for (let iter = 0; iter < maxIter; iter++) {
+    // Order the vertices from best to worst
+    const order = [0, 1, 2].sort((a, b) => fx[a] - fx[b]);
+    simplex = order.map((i) => simplex[i]);
+    fx = order.map((i) => fx[i]);
+    if (Math.abs(fx[2] - fx[0]) <= tolerance * (Math.abs(fx[0]) + tolerance)) break;
+    const centroid = [(simplex[0][0] + simplex[1][0]) / 2, (simplex[0][1] + simplex[1][1]) / 2];
+    const point = (t: number) => [
+      centroid[0] + t * (simplex[2][0] - centroid[0]),
+      centroid[1] + t * (simplex[2][1] - centroid[1]),
+    ];
+    const reflected = point(-1);
+    const fr = f(reflected);
+    if (fr < fx[0]) {
+      const expanded = point(-2);
+      const fe = f(expanded);
+      if (fe < fr) {
+        simplex[2] = expanded;
+        fx[2] = fe;
+      } else {
+        simplex[2] = reflected;
+        fx[2] = fr;
+      }
+    } else if (fr < fx[1]) {
+      simplex[2] = reflected;
+      fx[2] = fr;
+    } else {
+      const contracted = fr < fx[2] ? point(-0.5) : point(0.5);
+      const fc = f(contracted);
+      if (fc < Math.min(fr, fx[2])) {
+        simplex[2] = contracted;
+        fx[2] = fc;
+      } else {
+        // Shrink towards the best vertex
+        for (const i of [1, 2]) {
+          simplex[i] = [(simplex[0][0] + simplex[i][0]) / 2, (simplex[0][1] + simplex[i][1]) / 2];
+          fx[i] = f(simplex[i]);
+        }
+      }
+    }
+  }
+  return fx[0] <= fx[1] && fx[0] <= fx[2] ? simplex[0] : simplex[fx[1] <= fx[2] ? 1 : 2];
+} //nelderMead2
+
+/**
+ * Fit a truncated normal distribution to the Box-Cox transformed data within
+ * the truncation points.
+ *
+ * @param data weighted data within the truncation points
+ * @param lower lower truncation point in original units, -Infinity if none
+ * @param upper upper truncation point in original units, Infinity if none
+ * @param lambda Box-Cox lambda
+ * @returns mu, sigma and the log likelihood in original units
+ */
+function fitTruncatedNormal(
+  data: WeightedData,
+  lower: number,
+  upper: number,
+  lambda: number
+): TruncatedFit {
+  const y = data.values.map((x) => boxCox(x, lambda));
+  const w = data.weights;
+  const a = lower === -Infinity ? -Infinity : boxCox(lower, lambda);
+  const b = upper === Infinity ? Infinity : boxCox(upper, lambda);
+  let n = 0;
+  let sum = 0;
+  let sumSq = 0;
+  let logJacobian = 0;
+  for (let i = 0; i < y.length; i++) {
+    n += w[i];
+    sum += w[i] * y[i];
+    sumSq += w[i] * y[i] * y[i];
+    logJacobian += w[i] * (lambda - 1) * Math.log(data.values[i]);
+  }
+  const mean = sum / n;
+  const sd = Math.sqrt(Math.max(sumSq / n - mean * mean, 0)) || 1;
+
+  // Negative log likelihood of mu and log(sigma)
+  const negLogLikelihood = (p: number[]) => {
+    const mu = p[0];
+    const sigma = Math.exp(p[1]);
+    const mass = normal.cdf((b - mu) / sigma, 0, 1) - normal.cdf((a - mu) / sigma, 0, 1);
+    if (!(mass > 0)) return Infinity;
+    // Sum of squared deviations from the weighted moments
+    const ss = sumSq - 2 * mu * sum + n * mu * mu;
+    return ss / (2 * sigma * sigma) + n * Math.log(sigma) + n * Math.log(mass);
+  };
+  const best = nelderMead2(negLogLikelihood, [mean, Math.log(sd)], [0.1 * sd, 0.1]);
+  return {
+    lambda: lambda,
+    mu: best[0],
+    sigma: Math.exp(best[1]),
+    logLikelihood: -negLogLikelihood(best) + logJacobian,
+  };
+} //fitTruncatedNormal
+
+/**
+ * Fit the truncated normal distribution with the Box-Cox lambda that
+ * maximises the profile likelihood, found by golden section search.
+ */
+function fitTruncatedBoxCox(data: WeightedData, lower: number, upper: number): TruncatedFit {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = LAMBDA_RANGE[0];
+  let hi = LAMBDA_RANGE[1];
+  let x1 = hi - ratio * (hi - lo);
+  let x2 = lo + ratio * (hi - lo);
+  let f1 = fitTruncatedNormal(data, lower, upper, x1);
+  let f2 = fitTruncatedNormal(data, lower, upper, x2);
+  while (hi - lo > LAMBDA_TOLERANCE) {
+    if (f1.logLikelihood > f2.logLikelihood) {
+      hi = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = hi - ratio * (hi - lo);
+      f1 = fitTruncatedNormal(data, lower, upper, x1);
+    } else {
+      lo = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = lo + ratio * (hi - lo);
+      f2 = fitTruncatedNormal(data, lower, upper, x2);
+    }
+  }
+  return f1.logLikelihood > f2.logLikelihood ? f1 : f2;
+} //fitTruncatedBoxCox
+
+/**
+ * Kolmogorov-Smirnov distance between the data within the truncation points
+ * and the fitted truncated distribution, scaled by the square root of the
+ * number of values. The distributions are compared midway between adjacent
+ * values, so that ties from rounding do not inflate the distance.
+ */
+function truncatedKsCost(
+  data: WeightedData,
+  lower: number,
+  upper: number,
+  fit: TruncatedFit
+): number {
+  const cdf = (x: number) => normal.cdf((boxCox(x, fit.lambda) - fit.mu) / fit.sigma, 0, 1);
+  const a = lower === -Infinity ? 0 : cdf(lower);
+  const b = upper === Infinity ? 1 : cdf(upper);
+  const n = data.weights.reduce((s, w) => s + w, 0);
+  let cumulative = 0;
+  let distance = 0;
+  for (let i = 0; i < data.values.length - 1; i++) {
+    cumulative += data.weights[i];
+    const fitted = (cdf((data.values[i] + data.values[i + 1]) / 2) - a) / (b - a);
+    distance = Math.max(distance, Math.abs(fitted - cumulative / n));
+  }
+  return Math.sqrt(n) * distance;
+} //truncatedKsCost
+
+/**
+ * Estimate a reference interval from routine patient data by truncated
+ * maximum likelihood.
+ *
+ * @param data routine results, which must be positive
+ * @param alpha proportion outside the reference interval. Default is 0.05
+ * @param progress optional callback reporting the number of truncation intervals fitted
+ * @returns reference limits and the fitted non-pathological distribution
+ */
+function indirect_ref_limit(
+  data: number[],
+  alpha: number = 0.05,
+  progress?: ProgressCallback
+): IndirectReferenceInterval {
+  const n = data.length;
+  if (n < MIN_DATA) {
+    throw new RangeError(`At least ${MIN_DATA} results are required for the indirect method.`);
+  }
+  if (data.some((x) => !(x > 0))) {
+    throw new RangeError("The indirect method requires positive values.");
+  }
+  const sorted = [...data].sort((a, b) => a - b);
+  const weighted = compress(sorted);
+  const m = weighted.values.length;
+  // Index of the first value at or after each cumulative count
+  const cumulative: number[] = [];
+  weighted.weights.reduce((s, w, i) => (cumulative[i] = s + w), 0);
+  const indexAt = (q: number) => {
+    const target = q * n;
+    let i = 0;
+    while (i < m - 1 && cumulative[i] <= target) i++;
+    return i;
+  };
+
+  // Candidate truncation intervals, as indexes of the first and last value within them
+  const candidates: [number, number][] = [];
+  const steps = Math.round(MAX_LOWER_TRUNCATION / TRUNCATION_STEP);
+  for (let i = 0; i <= steps; i++) {
+    for (let j = 0; j <= Math.round((1 - MIN_UPPER_TRUNCATION) / TRUNCATION_STEP); j++) {
+      const first = i === 0 ? 0 : indexAt(i * TRUNCATION_STEP);
+      const last = j === 0 ? m - 1 : indexAt(1 - j * TRUNCATION_STEP) - 1;
+      if (last - first >= 3) candidates.push([first, last]);
+    }
+  }
+  const report = throttleProgress(candidates.length, progress);
+
+  const z = normal.inv(1 - alpha / 2, 0, 1);
+  const fits: IndirectReferenceInterval[] = [];
+  const counts: number[] = []; // Number of results within each truncation interval
+  for (let k = 0; k < candidates.length; k++) {
+    const [first, last] = candidates[k];
+    // Truncate midway between the last excluded and first included values
+    const lower =
+      first === 0 ? -Infinity : (weighted.values[first - 1] + weighted.values[first]) / 2;
+    const upper =
+      last === m - 1 ? Infinity : (weighted.values[last] + weighted.values[last + 1]) / 2;
+    const within: WeightedData = {
+      values: weighted.values.slice(first, last + 1),
+      weights: weighted.weights.slice(first, last + 1),
+    };
+    const fit = fitTruncatedBoxCox(within, lower, upper);
+    const nWithin = within.weights.reduce((s, w) => s + w, 0);
+    const a = lower === -Infinity ? 0 : normal.cdf(boxCox(lower, fit.lambda), fit.mu, fit.sigma);
+    const b = upper === Infinity ? 1 : normal.cdf(boxCox(upper, fit.lambda), fit.mu, fit.sigma);
+    fits.push({
+      lowerLimit: boxCoxInverse(fit.mu - z * fit.sigma, fit.lambda),
+      upperLimit: boxCoxInverse(fit.mu + z * fit.sigma, fit.lambda),
+      lambda: fit.lambda,
+      mu: fit.mu,
+      sigma: fit.sigma,
+      truncation: [weighted.values[first], weighted.values[last]],
+      fraction: Math.min(1, nWithin / (n * (b - a))),
+      cost: truncatedKsCost(within, lower, upper, fit),
+      n: n,
+    });
+    counts.push(nWithin);
+    report(k + 1);
+  }
+  if (fits.length === 0) {
+    throw new RangeError("The data have too few distinct values for the indirect method.");
+  }
+  // The widest truncation interval with an acceptable fit, or else the best fit
+  let best = 0;
+  for (let k = 1; k < fits.length; k++) {
+    const acceptable = fits[k].cost <= KS_CRITICAL;
+    const bestAcceptable = fits[best].cost <= KS_CRITICAL;
+    if (acceptable && bestAcceptable) {
+      if (
+        counts[k] > counts[best] ||
+        (counts[k] === counts[best] && fits[k].cost < fits[best].cost)
+      ) {
+        best = k;
+      }
+    } else if (acceptable || (!bestAcceptable && fits[k].cost < fits[best].cost)) {
+      best = k;
+    }
+  }
+  return fits[best];
+} //indirect_ref_limit
+
+export { INDIRECT, KS_CRITICAL, IndirectReferenceInterval, indirect_ref_limit };
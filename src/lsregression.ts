@@ -1,28 +1,56 @@
 /**
- * Simple Least Squares Regression
+ * Ordinary and Weighted Least Squares Regression
  *
- * Included for completeness but not currently included in the add-in
+ * Appropriate for method comparison only when the reference method (x) has
+ * negligible error compared with the test method (y). Weighted least squares
+ * uses weights of 1/x^2, appropriate when the error of y is proportional to
+ * concentration.
  */
-import { Regression, ConfidenceIntervalModel } from "./regression";
-import { studentt } from "jstat-esm";
+import { Regression, ConfidenceIntervalModel, AnovaModel } from "./regression";
+import { centralF, studentt } from "jstat-esm";
 
 class LeastSquaresRegression implements Regression {
+  weighted: boolean; // weights of 1/x^2 if true
+
+  constructor(weighted = false) {
+    this.weighted = weighted;
+  }
+
+  /**
+   * Weight for each observation
+   *
+   * @param x
+   * @returns array of weights, all 1 unless weighted
+   */
+  weights(x: number[]): number[] {
+    if (!this.weighted) return new Array<number>(x.length).fill(1);
+    if (Math.min(...x) <= 0) {
+      throw new Error("Weighted least squares requires positive x values.");
+    }
+    return x.map((v) => 1 / (v * v));
+  }
+
   calculate(x: number[], y: number[]) {
-    let sum_xy = 0;
-    let sum_xx = 0;
-    let sum_x = 0;
-    let sum_y = 0;
+    const w = this.weights(x);
+    let sum_w = 0;
+    let sum_wx = 0;
+    let sum_wy = 0;
     let n = x.length;
     for (let i = 0; i < n; i++) {
-      sum_xy += x[i] * y[i];
-      sum_xx += x[i] * x[i];
-      sum_x += x[i];
-      sum_y += y[i];
+      sum_w += w[i];
+      sum_wx += w[i] * x[i];
+      sum_wy += w[i] * y[i];
+    }
+    const mean_x = sum_wx / sum_w;
+    const mean_y = sum_wy / sum_w;
+    let ss_xy = 0;
+    let ss_xx = 0;
+    for (let i = 0; i < n; i++) {
+      ss_xy += w[i] * (x[i] - mean_x) * (y[i] - mean_y);
+      ss_xx += w[i] * (x[i] - mean_x) * (x[i] - mean_x);
     }
-    const ss_xy = sum_xy - (sum_x * sum_y) / n;
-    const ss_xx = sum_xx - (sum_x * sum_x) / n;
     let b1 = ss_xy / ss_xx;
-    let b0 = (sum_y - b1 * sum_x) / n;
+    let b0 = mean_y - b1 * mean_x;
 
     return {
       slope: b1,
@@ -37,33 +65,40 @@ class LeastSquaresRegression implements Regression {
 
 class LeastSquaresConfidenceInterval {
   alpha: number; //alpha for upper and lower confidence limits
+  weighted: boolean; // weights of 1/x^2 if true
 
-  constructor(alpha = 0.05) {
+  constructor(alpha = 0.05, weighted = false) {
     this.alpha = alpha;
+    this.weighted = weighted;
   }
 
   calculate(x: number[], y: number[]): ConfidenceIntervalModel {
-    const regression = new LeastSquaresRegression();
+    const regression = new LeastSquaresRegression(this.weighted);
     const reg = regression.calculate(x, y);
+    const w = regression.weights(x);
     const n = x.length;
-    let sum_xx = 0;
-    let sum_xy = 0;
-    let sum_yy = 0;
-    let sum_y = 0;
-    let sum_x = 0;
+    if (n <= 2) throw new Error("Sample size must be greater than 2");
+    let sum_w = 0;
+    let sum_wx = 0;
+    let sum_wy = 0;
 
     for (let i = 0; i < n; i++) {
-      sum_xx += x[i] * x[i];
-      sum_xy += x[i] * y[i];
-      sum_yy += y[i] * y[i];
-      sum_y += y[i];
-      sum_x += x[i];
-      //sse += (y[i] - reg.intercept - reg.slope * x[i]) * (y[i] - reg.intercept - reg.slope * x[i]);
+      sum_w += w[i];
+      sum_wx += w[i] * x[i];
+      sum_wy += w[i] * y[i];
     }
+    const mean_x = sum_wx / sum_w;
+    const mean_y = sum_wy / sum_w;
+
     //sum of squares
-    const ss_xx = sum_xx - (sum_x * sum_x) / n;
-    const ss_xy = sum_xy - (sum_x * sum_y) / n;
-    const ss_yy = sum_yy - (sum_y * sum_y) / n;
+    let ss_xx = 0;
+    let ss_xy = 0;
+    let ss_yy = 0;
+    for (let i = 0; i < n; i++) {
+      ss_xx += w[i] * (x[i] - mean_x) * (x[i] - mean_x);
+      ss_xy += w[i] * (x[i] - mean_x) * (y[i] - mean_y);
+      ss_yy += w[i] * (y[i] - mean_y) * (y[i] - mean_y);
+    }
 
     //Calculate SSE to reduce rounding errors
     //Mendenhall WM, Sincich TL. 2016. Statistics for Engineering
@@ -75,11 +110,7 @@ class LeastSquaresConfidenceInterval {
 
     //Mendenhall WM, Sincich TL. 2016. Statistics for Engineering
     //and the Sciences 6th ed. CRC Press, Boca Raton. page 503.
-    const s_intercept = s * Math.sqrt(1 / n + Math.pow(sum_x / n, 2) / ss_xx);
-
-    // console.log(`ss_xx = ${ss_xx}, ss_xy = ${ss_xy}, ss_yy = ${ss_yy}`);
-    // console.log(`sse = ${sse}; s = ${s}`);
-    // console.log(`s_slope = ${s_slope}, z=${z}`);
+    const s_intercept = s * Math.sqrt(1 / sum_w + Math.pow(mean_x, 2) / ss_xx);
 
     const slope_lcl = reg.slope - z * s_slope;
     const slope_ucl = reg.slope + z * s_slope;
@@ -95,6 +126,36 @@ class LeastSquaresConfidenceInterval {
       slopeUCL: slope_ucl,
       interceptLCL: intercept_lcl,
       interceptUCL: intercept_ucl,
+      covariance: (-mean_x * s * s) / ss_xx,
+      anova: this.anova(ss_yy, sse, n),
+    };
+  }
+
+  /**
+   * Analysis of variance for the regression. For weighted least squares the
+   * sums of squares, and so Sy.x, are weighted.
+   *
+   * @param ss_yy total sum of squares
+   * @param sse residual sum of squares
+   * @param n number of observations
+   * @returns ANOVA table with r squared and Sy.x
+   */
+  anova(ss_yy: number, sse: number, n: number): AnovaModel {
+    const ssr = ss_yy - sse;
+    const msr = ssr;
+    const mse = sse / (n - 2);
+    const f = msr / mse;
+    return {
+      rSquared: ssr / ss_yy,
+      syx: Math.sqrt(mse),
+      ssRegression: ssr,
+      ssResidual: sse,
+      dfRegression: 1,
+      dfResidual: n - 2,
+      msRegression: msr,
+      msResidual: mse,
+      f: f,
+      p: 1 - centralF.cdf(f, 1, n - 2),
     };
   }
 }
@@ -0,0 +1,56 @@
+/**
+ * Mountain plot (folded empirical cumulative distribution) of the differences
+ * between two methods.
+ *
+ * The differences are ranked and the percentile of the difference with rank i
+ * of n is 100 * i / (n + 1). Percentiles above 50 are folded to 100 minus the
+ * percentile, so the plot rises to a peak at the median difference. The
+ * distance from the peak to zero shows the bias, and the width of the
+ * mountain the spread of the differences. The tails show the percentage of
+ * samples beyond a given difference, which may be compared with the APS.
+ *
+ * Krouwer JS, Monti KL. A simple, graphical method to evaluate laboratory
+ * assays. Eur J Clin Chem Clin Biochem. 1995;33(8):525-527.
+ *
+ * @author Douglas Chesher
+ */
+
+import { differences } from "./blandaltman";
+
+/* Points of a mountain plot in order of increasing difference */
+interface MountainPlot {
+  differences: number[];
+  percentiles: number[]; // Folded percentile, 0 to 50
+}
+
+/**
+ * Folded percentiles of an array of values.
+ *
+ * @param values array of values
+ * @returns sorted values and their folded percentiles
+ */
+function foldedPercentiles(values: number[]): MountainPlot {
+  const n = values.length;
+  if (n === 0) throw new Error("Array must not be empty.");
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentiles = sorted.map((_, i) => {
+    const p = (100 * (i + 1)) / (n + 1);
+    return p > 50 ? 100 - p : p;
+  });
+  return { differences: sorted, percentiles: percentiles };
+} //foldedPercentiles
+
+/**
+ * Mountain plot of the differences between the test and reference methods.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param diffType "rel" for relative differences, otherwise absolute differences
+ * @returns sorted differences and their folded percentiles
+ */
+function mountainPlot(x: number[], y: number[], diffType: string): MountainPlot {
+  const { diffs } = differences(x, y, diffType === "rel" ? "rel" : "abs");
+  return foldedPercentiles(diffs);
+} //mountainPlot
+
+export { MountainPlot, foldedPercentiles, mountainPlot };
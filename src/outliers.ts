@@ -0,0 +1,103 @@
+/**
+ * Outlier detection for paired method comparison data.
+ *
+ * CLSI EP09c recommends screening the differences between the two methods
+ * with the generalized extreme studentized deviate (ESD) procedure of Rosner.
+ * Up to r outliers are tested. At step i the observation furthest from the
+ * mean of the remaining data is removed and its studentized deviate R_i is
+ * compared with the critical value
+ *
+ *   lambda_i = (n - i) t(p, n - i - 1) / sqrt((n - i - 1 + t^2) (n - i + 1))
+ *
+ * where p = 1 - alpha / (2 (n - i + 1)). The number of outliers is the
+ * largest i for which R_i > lambda_i.
+ *
+ * Absolute differences (y - x) are used when the variability is constant and
+ * relative differences (y - x) / mean when it is proportional to concentration.
+ *
+ * Rosner B. Percentage points for a generalized ESD many-outlier procedure.
+ * Technometrics. 1983;25(2):165-172.
+ *
+ * CLSI EP09c. Measurement Procedure Comparison and Bias Estimation Using
+ * Patient Samples. 3rd Edition. 2018.
+ *
+ * @author Douglas Chesher
+ */
+
+import { mean, stdev, studentt } from "jstat-esm";
+import { differences } from "./blandaltman";
+
+const ESD_MAX_FRACTION = 0.05; // EP09c tests up to 5% of the samples
+
+/* An outlier identified by the generalized ESD procedure */
+interface EsdOutlier {
+  index: number; // Index of the observation in the data
+  value: number;
+  statistic: number; // Studentized deviate R_i
+  critical: number; // Critical value lambda_i
+}
+
+/**
+ * Generalized ESD procedure for up to maxOutliers outliers.
+ *
+ * @param data array of values
+ * @param maxOutliers maximum number of outliers to test
+ * @param alpha significance level. Default is 0.05
+ * @returns outliers in the order they were removed
+ */
+function generalizedEsd(data: number[], maxOutliers: number, alpha: number = 0.05): EsdOutlier[] {
+  const n = data.length;
+  if (n < 3) throw new Error("Sample size must be greater than 2");
+  const r = Math.min(maxOutliers, n - 2);
+  const remaining = data.map((value, index) => ({ index: index, value: value }));
+  const candidates: EsdOutlier[] = [];
+  let nOutliers = 0;
+  for (let i = 1; i <= r; i++) {
+    const values = remaining.map((d) => d.value);
+    const avg = mean(values);
+    const sd = stdev(values, true);
+    if (!(sd > 0)) break;
+    let maxIdx = 0;
+    for (let j = 1; j < remaining.length; j++) {
+      if (Math.abs(remaining[j].value - avg) > Math.abs(remaining[maxIdx].value - avg)) {
+        maxIdx = j;
+      }
+    }
+    const p = 1 - alpha / (2 * (n - i + 1));
+    const t = studentt.inv(p, n - i - 1);
+    const critical = ((n - i) * t) / Math.sqrt((n - i - 1 + t * t) * (n - i + 1));
+    const statistic = Math.abs(remaining[maxIdx].value - avg) / sd;
+    candidates.push({
+      index: remaining[maxIdx].index,
+      value: remaining[maxIdx].value,
+      statistic: statistic,
+      critical: critical,
+    });
+    if (statistic > critical) nOutliers = i;
+    remaining.splice(maxIdx, 1);
+  }
+  return candidates.slice(0, nOutliers);
+} //generalizedEsd
+
+/**
+ * Screen paired results for outliers using the generalized ESD procedure
+ * on the differences, testing for up to 5% of the samples (at least one).
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param diffType "rel" for relative differences, otherwise absolute differences
+ * @param alpha significance level. Default is 0.05
+ * @returns outliers, with the value being the difference
+ */
+function pairedOutliers(
+  x: number[],
+  y: number[],
+  diffType: string,
+  alpha: number = 0.05
+): EsdOutlier[] {
+  const { diffs } = differences(x, y, diffType === "rel" ? "rel" : "abs");
+  const maxOutliers = Math.max(1, Math.floor(ESD_MAX_FRACTION * diffs.length));
+  return generalizedEsd(diffs, maxOutliers, alpha);
+} //pairedOutliers
+
+export { EsdOutlier, generalizedEsd, pairedOutliers };
@@ -0,0 +1,216 @@
+/**
+ * Tests of whether a reference interval should be partitioned into subgroups,
+ * for example by sex or age.
+ *
+ * Harris-Boyd. For each pair of subgroups the difference in means is tested
+ * with
+ *
+ *   z = (mean1 - mean2) / sqrt(SD1^2 / n1 + SD2^2 / n2)
+ *
+ * and compared with the critical value z* = 3 sqrt(n / 120), where n is the
+ * average size of the two subgroups. Separate intervals are recommended if
+ * |z| > z* or if the ratio of the larger to the smaller SD exceeds 1.5. The
+ * test assumes Gaussian subgroups, so skewed data should be transformed.
+ *
+ * Lahti. The combined non-parametric 95% reference limits are calculated and
+ * the proportion of each subgroup below the lower limit and above the upper
+ * limit is compared with the nominal 2.5%. Partitioning is recommended if any
+ * proportion is above 4.1% or below 0.9%, and is not required if all are
+ * within 1.8% to 3.2%. Between these bounds the decision is marginal and
+ * should be based on clinical judgement.
+ *
+ * Harris EK, Boyd JC. On dividing reference data into subgroups to produce
+ * separate reference ranges. Clin Chem. 1990;36(2):265-270.
+ *
+ * Lahti A, Petersen PH, Boyd JC, Rustad P, Laake P, Solberg HE. Partitioning
+ * of nongaussian-distributed biochemical reference data into subgroups.
+ * Clin Chem. 2004;50(5):891-900.
+ *
+ * @author Douglas Chesher
+ */
+
+import { mean, stdev } from "jstat-esm";
+
+import { non_parametric_limits } from "./reference_intervals";
+
+const PARTITION = "partition";
+const MARGINAL = "marginal";
+const NO_PARTITION = "none";
+
+const HARRIS_BOYD_SD_RATIO = 1.5;
+const LAHTI_ALPHA = 0.05; // Lahti's criteria are defined for the 95% reference interval
+const LAHTI_PARTITION = [0.009, 0.041]; // Partition outside these proportions
+const LAHTI_NO_PARTITION = [0.018, 0.032]; // No partition within these proportions
+
+/* Reference data for one subgroup */
+interface Subgroup {
+  name: string;
+  data: number[];
+}
+
+/* Summary statistics of a subgroup */
+interface SubgroupSummary {
+  name: string;
+  n: number;
+  mean: number;
+  sd: number;
+}
+
+/* Harris-Boyd test of a pair of subgroups */
+interface HarrisBoydResult {
+  groups: [string, string];
+  z: number;
+  zCritical: number;
+  sdRatio: number; // Larger SD / smaller SD
+  decision: string; // PARTITION or NO_PARTITION
+}
+
+/* Lahti test of one subgroup */
+interface LahtiResult {
+  group: string;
+  n: number;
+  belowLower: number; // Proportion below the combined lower reference limit
+  aboveUpper: number; // Proportion above the combined upper reference limit
+  decision: string; // PARTITION, MARGINAL or NO_PARTITION
+}
+
+interface PartitionAnalysis {
+  subgroups: SubgroupSummary[];
+  harrisBoyd: HarrisBoydResult[];
+  lowerLimit: number; // Combined non-parametric reference limits used by the Lahti test
+  upperLimit: number;
+  lahti: LahtiResult[];
+  recommendation: string; // PARTITION, MARGINAL or NO_PARTITION
+}
+
+/**
+ * Harris-Boyd test of two subgroups.
+ *
+ * @param group1 first subgroup, at least 2 values
+ * @param group2 second subgroup, at least 2 values
+ * @returns z statistic, critical value, SD ratio and decision
+ */
+function harrisBoyd(group1: Subgroup, group2: Subgroup): HarrisBoydResult {
+  const n1 = group1.data.length;
+  const n2 = group2.data.length;
+  if (n1 < 2 || n2 < 2) {
+    throw new RangeError("Each subgroup must have at least 2 values for the Harris-Boyd test.");
+  }
+  const sd1 = stdev(group1.data, true);
+  const sd2 = stdev(group2.data, true);
+  const z =
+    (mean(group1.data) - mean(group2.data)) / Math.sqrt((sd1 * sd1) / n1 + (sd2 * sd2) / n2);
+  const zCritical = 3 * Math.sqrt((n1 + n2) / 2 / 120);
+  const sdRatio = Math.max(sd1, sd2) / Math.min(sd1, sd2);
+  const partition = Math.abs(z) > zCritical || sdRatio > HARRIS_BOYD_SD_RATIO;
+  return {
+    groups: [group1.name, group2.name],
+    z: z,
+    zCritical: zCritical,
+    sdRatio: sdRatio,
+    decision: partition ? PARTITION : NO_PARTITION,
+  };
+} //harrisBoyd
+
+/**
+ * Lahti decision for the proportions of a subgroup outside the combined limits.
+ *
+ * @param proportions proportions below the lower and above the upper limit
+ * @returns PARTITION, MARGINAL or NO_PARTITION
+ */
+function lahtiDecision(proportions: number[]): string {
+  if (proportions.some((p) => p < LAHTI_PARTITION[0] || p > LAHTI_PARTITION[1])) {
+    return PARTITION;
+  }
+  if (proportions.every((p) => p >= LAHTI_NO_PARTITION[0] && p <= LAHTI_NO_PARTITION[1])) {
+    return NO_PARTITION;
+  }
+  return MARGINAL;
+} //lahtiDecision
+
+/**
+ * Lahti test of each subgroup against the combined reference limits.
+ *
+ * @param groups subgroups
+ * @returns combined limits and the proportions of each subgroup outside them
+ */
+function lahti(groups: Subgroup[]): {
+  lowerLimit: number;
+  upperLimit: number;
+  results: LahtiResult[];
+} {
+  const combined = groups.flatMap((g) => g.data).sort((a, b) => a - b);
+  const [lowerLimit, upperLimit] = non_parametric_limits(combined, LAHTI_ALPHA);
+  const results = groups.map((g) => {
+    const n = g.data.length;
+    const belowLower = g.data.filter((x) => x < lowerLimit).length / n;
+    const aboveUpper = g.data.filter((x) => x > upperLimit).length / n;
+    return {
+      group: g.name,
+      n: n,
+      belowLower: belowLower,
+      aboveUpper: aboveUpper,
+      decision: lahtiDecision([belowLower, aboveUpper]),
+    };
+  });
+  return { lowerLimit: lowerLimit, upperLimit: upperLimit, results: results };
+} //lahti
+
+/**
+ * Apply the Harris-Boyd test to each pair of subgroups and the Lahti test to
+ * each subgroup. Partitioning is recommended if either test recommends it,
+ * marginal if the Lahti test is marginal for any subgroup, and otherwise not
+ * required.
+ *
+ * @param groups at least 2 subgroups, each with at least 2 values
+ * @returns partition analysis
+ */
+function partitionAnalysis(groups: Subgroup[]): PartitionAnalysis {
+  if (groups.length < 2) {
+    throw new RangeError("At least 2 subgroups are required to test partitioning.");
+  }
+  const harrisBoydResults: HarrisBoydResult[] = [];
+  for (let i = 0; i < groups.length - 1; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      harrisBoydResults.push(harrisBoyd(groups[i], groups[j]));
+    }
+  }
+  const lahtiResults = lahti(groups);
+  const decisions = [
+    ...harrisBoydResults.map((r) => r.decision),
+    ...lahtiResults.results.map((r) => r.decision),
+  ];
+  let recommendation = NO_PARTITION;
+  if (decisions.includes(PARTITION)) {
+    recommendation = PARTITION;
+  } else if (decisions.includes(MARGINAL)) {
+    recommendation = MARGINAL;
+  }
+  return {
+    subgroups: groups.map((g) => ({
+      name: g.name,
+      n: g.data.length,
+      mean: mean(g.data),
+      sd: stdev(g.data, true),
+    })),
+    harrisBoyd: harrisBoydResults,
+    lowerLimit: lahtiResults.lowerLimit,
+    upperLimit: lahtiResults.upperLimit,
+    lahti: lahtiResults.results,
+    recommendation: recommendation,
+  };
+} //partitionAnalysis
+
+export {
+  PARTITION,
+  MARGINAL,
+  NO_PARTITION,
+  Subgroup,
+  SubgroupSummary,
+  HarrisBoydResult,
+  LahtiResult,
+  PartitionAnalysis,
+  harrisBoyd,
+  lahti,
+  partitionAnalysis,
+};
@@ -0,0 +1,30 @@
+/**
+ * Progress reporting for long running calculations.
+ *
+ * @author Douglas Chesher
+ */
+
+/* Function called with the number of completed and total iterations */
+type ProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * Wrap a progress callback so that it is called at most about one hundred
+ * times during the calculation and always on completion.
+ *
+ * @param total total number of iterations
+ * @param progress callback to be throttled
+ * @returns throttled callback accepting the number of completed iterations
+ */
+function throttleProgress(total: number, progress?: ProgressCallback): (completed: number) => void {
+  if (progress === undefined) {
+    return () => {};
+  }
+  const step = Math.max(1, Math.floor(total / 100));
+  return (completed: number) => {
+    if (completed % step === 0 || completed === total) {
+      progress(completed, total);
+    }
+  };
+}
+
+export { ProgressCallback, throttleProgress };
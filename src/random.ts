@@ -0,0 +1,63 @@
+/**
+ * Random number generation for the resampling procedures.
+ *
+ * Bootstrap routines accept a RandomGenerator rather than calling
+ * Math.random directly so that a seeded generator can be supplied
+ * and the results reproduced.
+ *
+ * @author Douglas Chesher
+ */
+
+/* Function returning a uniformly distributed number in the interval [0, 1) */
+type RandomGenerator = () => number;
+
+/**
+ * Mulberry32 pseudo random number generator.
+ *
+ * A small and fast 32 bit generator by Tommy Ettinger. It is not suitable
+ * for cryptography but is more than adequate for bootstrap resampling.
+ *
+ * @param seed integer seed
+ * @returns random number generator
+ */
+function mulberry32(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return function () {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a random integer seed in the interval [0, 2^31).
+ *
+ * Used when no seed is entered so that the seed can still be reported
+ * with the results and the calculation repeated.
+ *
+ * @returns integer seed
+ */
+function generateSeed(): number {
+  return Math.floor(Math.random() * 2147483648);
+}
+
+/**
+ * Parse a seed entered by the user.
+ *
+ * @param text seed as entered. If blank a new seed is generated.
+ * @returns integer seed
+ */
+function parseSeed(text: string): number {
+  if (text.trim() === "") {
+    return generateSeed();
+  }
+  const seed = Number(text);
+  if (!Number.isInteger(seed)) {
+    throw new TypeError("Seed must be an integer.");
+  }
+  return seed;
+}
+
+export { RandomGenerator, mulberry32, generateSeed, parseSeed };
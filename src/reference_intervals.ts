@@ -8,9 +8,14 @@ import { studentt, normal, median, sum, max, percentile, mean, stdev } from "jst
 //import jStat from "jstat-esm"; Import individual functions to reduce size
 
 import * as shapiro_wilk from "./shapiro-wilk";
+import { RandomGenerator } from "./random";
+import { noncentralTInv } from "./distributions";
+import { ProgressCallback, throttleProgress } from "./progress";
 
 const NP = "np"; //non parametric
 const ROBUST = "robust";
+const PARAMETRIC = "parametric"; //mean ± z·SD
+const BOXCOX = "boxcox"; //parametric after a Box-Cox transformation
 
 /**
  * Calculate MAD for robust algorithm
@@ -166,11 +171,12 @@ function st(ui: number[], mad: number, c: number): number {
 /**
  * Take a random sample with replacement
  * @param data array of values
+ * @param random random number generator. Default is Math.random
  * @returns results of sampling as an array with the same length as the original data.
  */
-function sample_with_replacement(data: number[]): number[] {
+function sample_with_replacement(data: number[], random: RandomGenerator = Math.random): number[] {
   const indexes = Array.from({ length: data.length }, () => {
-    return Math.floor(Math.random() * data.length);
+    return Math.floor(random() * data.length);
   });
   let sample = [];
   for (let i = 0; i < data.length; i++) {
@@ -185,21 +191,27 @@ function sample_with_replacement(data: number[]): number[] {
  * @param alpha Default 0.05 for 95% confidence interval.
  * @param confAlpha Alpha for the confidence limits for the reference limit. Default is 0.1 for 90% confidence
  * @param n number of bootstrap samples. Default is 5000.
+ * @param random random number generator used for resampling. Default is Math.random
+ * @param progress optional callback reporting the number of bootstrap samples completed
  * @returns
  */
 function bootstrap_confidence_interval(
   data: number[],
   alpha: number = 0.05,
   confAlpha = 0.1,
-  n: number = 5000
+  n: number = 5000,
+  random: RandomGenerator = Math.random,
+  progress?: ProgressCallback
 ): [number[], number[]] {
   const lowerLimit: number[] = [n];
   const upperLimit: number[] = [n];
+  const reportProgress = throttleProgress(n, progress);
   for (let i = 0; i < n; i++) {
-    let sample = sample_with_replacement(data);
+    let sample = sample_with_replacement(data, random);
     const ri = robust(sample, alpha);
     lowerLimit[i] = ri[0];
     upperLimit[i] = ri[1];
+    reportProgress(i + 1);
   }
   lowerLimit.sort((a, b) => a - b);
   upperLimit.sort((a, b) => a - b);
@@ -222,6 +234,7 @@ interface ReferenceInterval {
   upperLimit: number;
   lowerLimitCI: number[];
   upperLimitCI: number[];
+  lambda?: number; // Box-Cox lambda if the limits were back-transformed
 }
 
 /**
@@ -230,8 +243,10 @@ interface ReferenceInterval {
  * @param data an array of values
  * @param alpha Default 0.05 for 95% confidence interval.
  * @param confAlpha Alpha for the confidence limits for the reference limit. Default is 0.1 for 90% confidence
- * @param method "robust" or "np" only
+ * @param method "robust", "np", "parametric" or "boxcox"
  * @param bootstrap_n. Number of bootstrap samples. Only used by robust method at present but could be used for the non-parametric method.
+ * @param random random number generator used for bootstrap resampling. Default is Math.random
+ * @param progress optional callback reporting the number of bootstrap samples completed
  * @returns reference limits and their confidence intervals
  */
 function ref_limit(
@@ -239,12 +254,14 @@ function ref_limit(
   alpha: number = 0.05,
   confAlpha = 0.1,
   method = ROBUST,
-  bootstrap_n: number = 5000
+  bootstrap_n: number = 5000,
+  random: RandomGenerator = Math.random,
+  progress?: ProgressCallback
 ): ReferenceInterval {
   let refint: ReferenceInterval;
   if (method === ROBUST) {
     const ri = robust(data, alpha);
-    const ci = bootstrap_confidence_interval(data, alpha, confAlpha, bootstrap_n);
+    const ci = bootstrap_confidence_interval(data, alpha, confAlpha, bootstrap_n, random, progress);
     refint = {
       lowerLimit: ri[0],
       upperLimit: ri[1],
@@ -253,12 +270,33 @@ function ref_limit(
     };
   } else if (method === NP) {
     refint = non_parametric(data, alpha, confAlpha);
+  } else if (method === PARAMETRIC) {
+    refint = parametric(data, alpha, confAlpha);
+  } else if (method === BOXCOX) {
+    refint = boxcox_parametric(data, alpha, confAlpha);
   } else {
     throw new Error("Unknown method: " + method);
   }
   return refint;
 }
 
+/**
+ * Non-parametric reference limits, the values of rank round(n * alpha / 2)
+ * and round(n * (1 - alpha / 2)).
+ *
+ * @param sorted population data sorted in ascending order
+ * @param alpha proportion outside the reference interval. Default is 0.05 for 95%
+ * @returns [lower limit, upper limit]
+ */
+function non_parametric_limits(sorted: number[], alpha: number = 0.05): [number, number] {
+  const n = sorted.length;
+  const lowerLimitRank = Math.round((n * alpha) / 2);
+  const lowerLimitIndex = lowerLimitRank < 1 ? 0 : lowerLimitRank - 1;
+  const upperLimitRank = Math.round(n * (1 - alpha / 2));
+  const upperLimitIndex = upperLimitRank > n ? n - 1 : upperLimitRank - 1;
+  return [sorted[lowerLimitIndex], sorted[upperLimitIndex]];
+}
+
 /**
  * Non-parametric method for determining reference intervals.
  * The method used for calculating the confidence limits for the reference intervals is different to that
@@ -286,12 +324,7 @@ function non_parametric(data: number[], alpha: number = 0.05, confAlpha = 0.1):
       "At least 120 subjects are required to calculate 90% confidence intervals using a non-parametric method."
     );
   }
-  const lowerLimitRank = Math.round((n * alpha) / 2);
-  const lowerLimitIndex = lowerLimitRank < 1 ? 0 : lowerLimitRank - 1;
-  const lowerLimit = data[lowerLimitIndex];
-  const upperLimitRank = Math.round(n * (1 - alpha / 2));
-  const upperLimitIndex = upperLimitRank > n ? n - 1 : upperLimitRank - 1;
-  const upperLimit = data[upperLimitIndex];
+  const [lowerLimit, upperLimit] = non_parametric_limits(data, alpha);
 
   const lowerLimitLCLRank = lower_confidence_limit_rank(n, alpha / 2, confAlpha);
   const lowerLimitLCLIndex = lowerLimitLCLRank < 1 ? 0 : lowerLimitLCLRank - 1;
@@ -347,6 +380,78 @@ function upper_confidence_limit_rank(n: number, q: number = 0.975, alpha = 0.1):
   return s;
 }
 
+/**
+ * Parametric reference interval, mean ± z·SD, for normally distributed data.
+ *
+ * The reference limit mean + z·SD estimates the quantile mu + z·sigma. Its exact
+ * confidence limits are mean + k·SD, where k·sqrt(n) are quantiles of the
+ * noncentral t distribution with n - 1 degrees of freedom and noncentrality
+ * parameter z·sqrt(n). The same factors give the limits for mean - z·SD.
+ *
+ * CLSI EP28-A3c. Defining, Establishing, and Verifying Reference Intervals in
+ * the Clinical Laboratory. 3rd Edition. 2010.
+ *
+ * @param data population data
+ * @param alpha proportion outside the reference interval. Default is 0.05 for 95%
+ * @param confAlpha level of significance for the reference limit confidence intervals. Default is 0.1 for 90%.
+ * @returns reference limits and confidence intervals.
+ */
+function parametric(data: number[], alpha: number = 0.05, confAlpha = 0.1): ReferenceInterval {
+  const n = data.length;
+  if (n < 3) {
+    throw new Error(
+      "At least 3 subjects are required to calculate a parametric reference interval."
+    );
+  }
+  const data_mean = mean(data);
+  const s = stdev(data, true);
+  const z = normal.inv(1 - alpha / 2, 0, 1);
+  const kLower = noncentralTInv(confAlpha / 2, n - 1, z * Math.sqrt(n)) / Math.sqrt(n);
+  const kUpper = noncentralTInv(1 - confAlpha / 2, n - 1, z * Math.sqrt(n)) / Math.sqrt(n);
+  return {
+    lowerLimit: data_mean - z * s,
+    upperLimit: data_mean + z * s,
+    lowerLimitCI: [data_mean - kUpper * s, data_mean - kLower * s],
+    upperLimitCI: [data_mean + kLower * s, data_mean + kUpper * s],
+  };
+}
+
+/**
+ * Parametric reference interval after a Box-Cox transformation. The limits and
+ * their confidence limits are calculated from the transformed data and then
+ * back-transformed.
+ *
+ * @param data population data, which must be positive
+ * @param alpha proportion outside the reference interval. Default is 0.05 for 95%
+ * @param confAlpha level of significance for the reference limit confidence intervals. Default is 0.1 for 90%.
+ * @param lambda Box-Cox lambda. Estimated with boxcoxfit if not given
+ * @returns reference limits and confidence intervals, with the lambda used
+ */
+function boxcox_parametric(
+  data: number[],
+  alpha: number = 0.05,
+  confAlpha = 0.1,
+  lambda?: number
+): ReferenceInterval {
+  if (data.some((x) => x <= 0)) {
+    throw new Error("Box-Cox requires strictly positive data.");
+  }
+  const l = lambda ?? Number(boxcoxfit(data).lambda.toFixed(4));
+  const ri = parametric(
+    data.map((x) => boxCox(x, l)),
+    alpha,
+    confAlpha
+  );
+  const inverse = (x: number) => boxCoxInverse(x, l);
+  return {
+    lowerLimit: inverse(ri.lowerLimit),
+    upperLimit: inverse(ri.upperLimit),
+    lowerLimitCI: ri.lowerLimitCI.map(inverse),
+    upperLimitCI: ri.upperLimitCI.map(inverse),
+    lambda: l,
+  };
+}
+
 /**
  * Horn, P. S. (1988). A Biweight Prediction Interval for Random Samples.
  * Journal of the American Statistical Association, 83(401), 249–256.
@@ -391,6 +496,20 @@ function boxCox(x: number, lambda: number): number {
   return (Math.pow(x, lambda) - 1) / lambda;
 }
 
+/**
+ * Inverse of the Box-Cox transformation.
+ *
+ * @param x - transformed value
+ * @param lambda - transformation parameter
+ * @returns value on the original scale. NaN if x is outside the range of the transformation
+ */
+function boxCoxInverse(x: number, lambda: number): number {
+  if (lambda === 0) {
+    return Math.exp(x);
+  }
+  return Math.exp(Math.log(lambda * x + 1) / lambda);
+}
+
 /**
  * Compute log-likelihood for Box-Cox transformed data
  *
@@ -637,9 +756,15 @@ export {
   boxcoxfit,
   BoxCoxTransform,
   boxCox,
+  boxCoxInverse,
   ref_limit,
+  parametric,
+  boxcox_parametric,
+  non_parametric_limits,
   NP,
   ROBUST,
+  PARAMETRIC,
+  BOXCOX,
   ReferenceInterval,
   adjusted_fisher_pearson_coefficient,
   is_consistent_with_normal,
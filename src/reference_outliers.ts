@@ -0,0 +1,158 @@
+/**
+ * Exclusion of outliers from reference interval data.
+ *
+ * Dixon/Reed. The gap D between the most extreme value and its nearest
+ * neighbour is compared with the range R of the data. If D/R > 1/3 the
+ * extreme value is excluded. The test is repeated on the remaining data
+ * until neither extreme is excluded.
+ *
+ * Tukey. Values below Q1 - 1.5 IQR or above Q3 + 1.5 IQR, where IQR is the
+ * interquartile range, are excluded. As the fences assume a symmetric
+ * distribution, skewed data may first be Box-Cox transformed, which is the
+ * approach of Horn et al. The fences are applied once.
+ *
+ * Reed AH, Henry RJ, Mason WB. Influence of statistical method used on the
+ * resulting estimate of normal range. Clinical Chemistry 1971;17:275-284.
+ *
+ * Horn PS, Feng L, Li Y, Pesce AJ. Effect of outliers and nonhealthy
+ * individuals on reference interval estimation. Clinical Chemistry
+ * 2001;47(12):2137-2145.
+ *
+ * CLSI EP28-A3c. Defining, Establishing, and Verifying Reference Intervals in
+ * the Clinical Laboratory. 3rd Edition. 2010.
+ *
+ * @author Douglas Chesher
+ */
+
+import { boxCox, boxcoxfit } from "./reference_intervals";
+import { quantile } from "./regression";
+
+const DIXON_REED = "dixon";
+const TUKEY = "tukey";
+const TUKEY_BOXCOX = "tukey-boxcox"; // Tukey fences on Box-Cox transformed data
+
+const DIXON_REED_CRITICAL = 1 / 3;
+const TUKEY_K = 1.5;
+
+/* A value excluded from the reference interval data */
+interface ExcludedValue {
+  index: number; // Index of the value in the data
+  value: number;
+}
+
+/* Values excluded by an outlier method */
+interface OutlierExclusion {
+  excluded: ExcludedValue[]; // In the order they were excluded
+  retained: number[]; // Remaining data in their original order
+  lambda?: number; // Box-Cox lambda used by the Tukey fences
+}
+
+/**
+ * Dixon/Reed ratios of the lowest and highest values.
+ *
+ * @param sorted data sorted in ascending order, at least 3 values
+ * @returns [low ratio, high ratio], NaN if all values are equal
+ */
+function dixonReedRatios(sorted: number[]): [number, number] {
+  const n = sorted.length - 1;
+  const range = sorted[n] - sorted[0];
+  return [(sorted[1] - sorted[0]) / range, (sorted[n] - sorted[n - 1]) / range];
+} //dixonReedRatios
+
+/**
+ * Iterative Dixon/Reed test. Both extremes are tested against the range of
+ * the remaining data and those with D/R > 1/3 are excluded, until neither is
+ * excluded or fewer than 3 values remain.
+ *
+ * @param data values
+ * @returns excluded values
+ */
+function iterativeDixonReed(data: number[]): ExcludedValue[] {
+  // Indexes of the remaining data sorted by value
+  const order = data.map((_, i) => i).sort((a, b) => data[a] - data[b]);
+  const excluded: ExcludedValue[] = [];
+  while (order.length > 2) {
+    const [low, high] = dixonReedRatios(order.map((i) => data[i]));
+    const excludeLow = low > DIXON_REED_CRITICAL;
+    const excludeHigh = high > DIXON_REED_CRITICAL;
+    if (!excludeLow && !excludeHigh) break;
+    if (excludeLow) {
+      const i = order.shift() as number;
+      excluded.push({ index: i, value: data[i] });
+    }
+    if (excludeHigh) {
+      const i = order.pop() as number;
+      excluded.push({ index: i, value: data[i] });
+    }
+  }
+  return excluded;
+} //iterativeDixonReed
+
+/**
+ * Tukey fences.
+ *
+ * @param data values
+ * @param k multiple of the interquartile range. Default is 1.5
+ * @returns [lower fence, upper fence]
+ */
+function tukeyFences(data: number[], k: number = TUKEY_K): [number, number] {
+  const [q1, q3] = quantile(data, [0.25, 0.75]) as number[];
+  return [q1 - k * (q3 - q1), q3 + k * (q3 - q1)];
+} //tukeyFences
+
+/**
+ * Values outside the Tukey fences.
+ *
+ * @param data values
+ * @param k multiple of the interquartile range. Default is 1.5
+ * @returns excluded values
+ */
+function tukeyOutliers(data: number[], k: number = TUKEY_K): ExcludedValue[] {
+  const [lower, upper] = tukeyFences(data, k);
+  const excluded: ExcludedValue[] = [];
+  data.forEach((value, index) => {
+    if (value < lower || value > upper) excluded.push({ index: index, value: value });
+  });
+  return excluded;
+} //tukeyOutliers
+
+/**
+ * Exclude outliers from reference interval data.
+ *
+ * @param data values
+ * @param method one of DIXON_REED, TUKEY or TUKEY_BOXCOX. Any other value excludes nothing
+ * @returns excluded and retained values
+ */
+function excludeOutliers(data: number[], method: string): OutlierExclusion {
+  let excluded: ExcludedValue[] = [];
+  let lambda: number | undefined = undefined;
+  if (method === DIXON_REED) {
+    excluded = iterativeDixonReed(data);
+  } else if (method === TUKEY) {
+    excluded = tukeyOutliers(data);
+  } else if (method === TUKEY_BOXCOX) {
+    if (data.some((x) => !(x > 0))) {
+      throw new RangeError("The Box-Cox transformation requires positive values.");
+    }
+    const fitted = Number(boxcoxfit(data).lambda.toFixed(4));
+    lambda = fitted;
+    const transformed = data.map((x) => boxCox(x, fitted));
+    excluded = tukeyOutliers(transformed).map((e) => ({ index: e.index, value: data[e.index] }));
+  }
+  const indexes = new Set(excluded.map((e) => e.index));
+  const retained = data.filter((_, i) => !indexes.has(i));
+  return { excluded: excluded, retained: retained, lambda: lambda };
+} //excludeOutliers
+
+export {
+  DIXON_REED,
+  TUKEY,
+  TUKEY_BOXCOX,
+  ExcludedValue,
+  OutlierExclusion,
+  dixonReedRatios,
+  iterativeDixonReed,
+  tukeyFences,
+  tukeyOutliers,
+  excludeOutliers,
+};
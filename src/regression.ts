@@ -2,11 +2,16 @@
  * Small library for performing regression analysis on data from method
  * comparison studies.
  *
- * It has routines for Deming, Weighted Deming, and Passing-Bablok regression.
+ * It has routines for Deming, Weighted Deming, and Passing-Bablok regression,
+ * together with ordinary and weighted least squares regression for when the
+ * reference method has negligible error.
  * The default confidence interval of Deming and Weighted Deming regression
- * uses a leave-one-out Jackknife procedure.
+ * uses a leave-one-out Jackknife procedure. Analytic standard errors are
+ * also available for both Deming methods.
  * The default confidence interval for Passing-Bablock regression is a
  * non-parametric estimate.
+ * Bootstrap confidence intervals may be calculated for all methods using
+ * the percentile, BCa, or Student-t (percentile-t) procedures.
  *
  * Acknowledgement: A lot of the procedures are based on the algorithms
  * in the mcr package for R by Sergej Potapov 2021
@@ -15,11 +20,18 @@
  *
  */
 
-import { normal, studentt, mean, stdev } from "jstat-esm";
+import { normal, studentt, mean, stdev, covariance } from "jstat-esm";
+import { RandomGenerator } from "./random";
+import { ProgressCallback, throttleProgress } from "./progress";
+import { LeastSquaresRegression, LeastSquaresConfidenceInterval } from "./lsregression";
+import { kendall } from "./correlation";
 
 enum CI_METHOD {
   JACKKNIFE = "jackknife",
   BOOTSTRAP = "bootstrap",
+  BCA = "bca",
+  TBOOT = "tboot",
+  ANALYTIC = "analytic",
   NONPARAMETRIC = "np",
   DEFAULT = "default",
 }
@@ -28,6 +40,8 @@ enum REG_METHOD {
   DEMING = "Deming",
   WDEMING = "WDeming",
   PABA = "PaBa",
+  OLS = "OLS",
+  WOLS = "WOLS",
 }
 
 const DEFAULT_ERROR_RATIO = 1;
@@ -35,9 +49,13 @@ const DEFAULT_ITER_MAX = 30;
 const DEFAULT_THRESHOLD = 0.000001;
 const DEFAULT_ALPHA = 0.05;
 const DEFAULT_BOOTSTRAP_N = 10000;
+const BAND_POINTS = 21; // Points across the range of x at which confidence bands are calculated
 
 const PI4 = Math.PI / 4;
 
+/* Confidence interval methods that resample the data */
+const BOOTSTRAP_METHODS: string[] = [CI_METHOD.BOOTSTRAP, CI_METHOD.BCA, CI_METHOD.TBOOT];
+
 /**
  * Sum of the sqaured deviations.
  *
@@ -108,6 +126,36 @@ function quantile(arr: number[], probs: number[]): number[] | undefined {
   return quantiles;
 } //quantile
 
+/* Cusum test for linearity of Passing-Bablok regression */
+interface CusumTest {
+  statistic: number; // Maximum absolute cusum divided by sqrt(number of negative residuals + 1)
+  critical: number; // Critical value from the Kolmogorov-Smirnov distribution
+  linear: boolean; // False if linearity is rejected
+}
+
+/* Kendall's tau test for correlation before Passing-Bablok regression */
+interface KendallTest {
+  tau: number;
+  statistic: number; // Normal approximation z statistic
+  p: number; // Two sided p value
+  positive: boolean; // True if the positive correlation variant was used
+  significant: boolean; // False if the correlation is not significant at alpha
+}
+
+/* Analysis of variance for least squares regression */
+interface AnovaModel {
+  rSquared: number;
+  syx: number; // Residual standard error, Sy.x
+  ssRegression: number;
+  ssResidual: number;
+  dfRegression: number;
+  dfResidual: number;
+  msRegression: number;
+  msResidual: number;
+  f: number;
+  p: number;
+}
+
 /* Object returned by calculate method of a Regression instance */
 interface RegressionModel {
   slope: number;
@@ -116,6 +164,8 @@ interface RegressionModel {
   slopeUCL: number;
   interceptLCL: number;
   interceptUCL: number;
+  cusum?: CusumTest; // Passing-Bablok regression only
+  kendall?: KendallTest; // Passing-Bablok regression only
 }
 
 /* Interface for performing regression analysis */
@@ -258,9 +308,6 @@ class WeightedDemingRegression implements Regression {
     const n = x.length;
     let lambda = this.errorRatio;
 
-    let d = new Array<number>(n);
-    let x_hat = new Array<number>(n);
-    let y_hat = new Array<number>(n);
     let w = new Array<number>(n);
     let w_x = new Array<number>(n);
     let w_y = new Array<number>(n);
@@ -281,11 +328,8 @@ class WeightedDemingRegression implements Regression {
       let wp = 0;
 
       /* Calculate the weighted sums */
+      w = this.calculateWeights(x, y, b0, b1);
       for (let i = 0; i < n; i++) {
-        d[i] = y[i] - (b0 + b1 * x[i]);
-        x_hat[i] = x[i] + (lambda * b1 * d[i]) / (1 + lambda * b1 * b1);
-        y_hat[i] = y[i] - d[i] / (1 + lambda * Math.pow(b1, 2));
-        w[i] = Math.pow((x_hat[i] + lambda * y_hat[i]) / (1 + lambda), -2);
         w_x[i] = w[i] * x[i];
         w_y[i] = w[i] * y[i];
         sumW += w[i];
@@ -295,7 +339,7 @@ class WeightedDemingRegression implements Regression {
       wx = wx / sumW;
       wy = wy / sumW;
 
-      //if (iter===1) console.log(`wx = ${wx}, wy = ${wy}, sumW = ${sumW}, d = ${d}, x_hat = ${x_hat}, y_hat = ${y_hat}, w = ${w}, w_x = ${w_x}, w_y = ${w_y}`);
+      //if (iter===1) console.log(`wx = ${wx}, wy = ${wy}, sumW = ${sumW}, w = ${w}, w_x = ${w_x}, w_y = ${w_y}`);
 
       /* Calculate the regression parameters on the weighted values */
       for (let i = 0; i < n; i++) {
@@ -333,6 +377,28 @@ class WeightedDemingRegression implements Regression {
     };
   } // #calculate
 
+  /**
+   * Calculate the weight of each x,y pair for the given regression line.
+   * The weight is the inverse of the square of the estimated true value.
+   *
+   * @param x results from reference method
+   * @param y results from test method
+   * @param b0 intercept
+   * @param b1 slope
+   * @returns weights
+   */
+  calculateWeights(x: number[], y: number[], b0: number, b1: number): number[] {
+    const lambda = this.errorRatio;
+    const w = new Array<number>(x.length);
+    for (let i = 0; i < x.length; i++) {
+      const d = y[i] - (b0 + b1 * x[i]);
+      const x_hat = x[i] + (lambda * b1 * d) / (1 + lambda * b1 * b1);
+      const y_hat = y[i] - d / (1 + lambda * Math.pow(b1, 2));
+      w[i] = Math.pow((x_hat + lambda * y_hat) / (1 + lambda), -2);
+    }
+    return w;
+  } //calculateWeights
+
   /**
    *
    * @param x results from reference method
@@ -358,8 +424,12 @@ interface AngleMatrixModel {
 
 /**
  * Initially based on mcr package for R by Sergej Potapov 2021
- * but only implemented for positively correlated data and to always
- * calculate the non-parametric confidence intervals using the method of Passing and Bablock
+ * but to always calculate the non-parametric confidence intervals using the
+ * method of Passing and Bablock.
+ *
+ * Unless the direction of the correlation is given, Kendall's tau is tested
+ * first. The positive correlation procedure is used if tau is not negative,
+ * otherwise the negative correlation procedure.
  *
  * Passing H, Bablock W. A new biometrical procedure for testing the equality of measurements
  * from two different analytical methods. Applications of linear regression procedures for
@@ -368,14 +438,15 @@ interface AngleMatrixModel {
  */
 class PassingBablokRegression implements Regression {
   private alpha: number;
-  private positiveCorrelated: boolean;
+  private positiveCorrelated?: boolean;
 
   /**
    *
    * @param alpha default is 0.05
-   * @param positiveCorrelated default is `true`
+   * @param positiveCorrelated default is `undefined`, to test Kendall's tau. If given, as for
+   * the bootstrap refits, neither Kendall's tau nor the cusum test is calculated
    */
-  constructor(alpha = DEFAULT_ALPHA, positiveCorrelated = true) {
+  constructor(alpha = DEFAULT_ALPHA, positiveCorrelated?: boolean) {
     this.alpha = alpha;
     this.positiveCorrelated = positiveCorrelated;
   }
@@ -396,7 +467,13 @@ class PassingBablokRegression implements Regression {
     let interceptL = 0;
     let interceptU = 0;
     let n = x.length;
-    let angleMatrixObj = this.calcAngleMatrix(x, y);
+    let kendallTest: KendallTest | undefined;
+    let positiveCorrelated = this.positiveCorrelated;
+    if (positiveCorrelated === undefined) {
+      kendallTest = this.testKendall(x, y);
+      positiveCorrelated = kendallTest.positive;
+    }
+    let angleMatrixObj = this.calcAngleMatrix(x, y, positiveCorrelated);
 
     let matrix = angleMatrixObj.matrix;
     let nAllItems = angleMatrixObj.nAllItems;
@@ -404,7 +481,7 @@ class PassingBablokRegression implements Regression {
     let nNeg2 = angleMatrixObj.nNeg2;
     let nPos = angleMatrixObj.nPos;
     let nPos2 = angleMatrixObj.nPos2;
-    let offset = this.positiveCorrelated ? nNeg + nNeg2 : -1 * (nPos + nPos2);
+    let offset = positiveCorrelated ? nNeg + nNeg2 : -1 * (nPos + nPos2);
     let nValIndex2 = nAllItems + offset;
     let lowestIdx = 0;
     let angle = 0;
@@ -423,7 +500,7 @@ class PassingBablokRegression implements Regression {
     let dConf = Math.round(z * Math.sqrt(t / 18.0));
     let ml = Math.floor(nAllItems - dConf + offset);
     let mlIdx = Math.floor((ml + 1) / 2.0);
-    if (this.positiveCorrelated) {
+    if (positiveCorrelated) {
       lowestIdx = 2 * (nNeg - nNeg2) + 1;
     } else {
       lowestIdx = 2 * (nPos - nPos2) + 1;
@@ -481,19 +558,101 @@ class PassingBablokRegression implements Regression {
       slopeUCL: slopeU,
       interceptLCL: interceptL,
       interceptUCL: interceptU,
+      cusum:
+        this.positiveCorrelated === undefined
+          ? this.calculateCusum(x, y, slope, intercept)
+          : undefined,
+      kendall: kendallTest,
     };
   }
 
+  /**
+   * Kendall's tau test for correlation, which Passing and Bablok require to
+   * be significant.
+   *
+   * @param x
+   * @param y
+   * @returns tau, z statistic, p value and the direction of the correlation
+   *
+   * @internal
+   */
+  testKendall(x: number[], y: number[]): KendallTest {
+    const tau = kendall(x, y);
+    return {
+      tau: tau.coefficient,
+      statistic: tau.statistic,
+      p: tau.p,
+      positive: !(tau.coefficient < 0),
+      significant: tau.p < this.alpha,
+    };
+  } //testKendall
+
+  /**
+   * Cusum test for linearity described by Passing and Bablok.
+   *
+   * Of the points not on the regression line, the L points above are scored
+   * sqrt(l/L) and the l points below are scored -sqrt(L/l). The scores are
+   * ordered by the projection of each point onto the regression line and
+   * cumulatively summed. Linearity is rejected if the maximum absolute cusum
+   * exceeds h * sqrt(l + 1), where h is the critical value of the
+   * Kolmogorov-Smirnov distribution, 1.36 for alpha = 0.05. If all the points
+   * lie on the line the statistic is 0. If the points not on the line are all
+   * above or all below it the scores are undefined and the statistic is NaN.
+   *
+   * @param x
+   * @param y
+   * @param slope
+   * @param intercept
+   * @returns cusum statistic, critical value and result
+   *
+   * @internal
+   */
+  calculateCusum(x: number[], y: number[], slope: number, intercept: number): CusumTest {
+    const n = x.length;
+    const residuals = new Array<number>(n);
+    let nPos = 0;
+    let nNeg = 0;
+    for (let i = 0; i < n; i++) {
+      residuals[i] = this.calcDiff(y[i], intercept + slope * x[i]);
+      if (residuals[i] > 0) nPos += 1;
+      if (residuals[i] < 0) nNeg += 1;
+    }
+    const critical = Math.sqrt(-0.5 * Math.log(this.alpha / 2));
+    if (nPos === 0 || nNeg === 0) {
+      const statistic = nPos + nNeg === 0 ? 0 : NaN;
+      return { statistic: statistic, critical: critical, linear: statistic === 0 };
+    }
+    // Distance along the regression line
+    const distance = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      distance[i] = (y[i] + x[i] / slope - intercept / slope) / Math.sqrt(1 + 1 / (slope * slope));
+    }
+    const order = [...Array(n).keys()].sort((a, b) => distance[a] - distance[b]);
+    let cusum = 0;
+    let maxCusum = 0;
+    for (const i of order) {
+      if (residuals[i] > 0) {
+        cusum += Math.sqrt(nNeg / nPos);
+      } else if (residuals[i] < 0) {
+        cusum -= Math.sqrt(nPos / nNeg);
+      }
+      maxCusum = Math.max(maxCusum, Math.abs(cusum));
+    }
+    const statistic = maxCusum / Math.sqrt(nNeg + 1);
+    return { statistic: statistic, critical: critical, linear: statistic <= critical };
+  } //calculateCusum
+
   /**
    * Calculates the slopes in radians
    *
    * @param x
    * @param y
+   * @param positiveCorrelated
    * @returns
    *
    * @internal
    */
-  calcAngleMatrix(x: number[], y: number[]): AngleMatrixModel {
+  calcAngleMatrix(x: number[], y: number[], positiveCorrelated: boolean): AngleMatrixModel {
     let nrows = x.length;
     let ncols = y.length;
     let nData = nrows * ncols;
@@ -519,7 +678,7 @@ class PassingBablokRegression implements Regression {
           } else if (dy !== 0) {
             //dx is zero and dy not zero
             nAllItems += 1;
-            if (this.positiveCorrelated) {
+            if (positiveCorrelated) {
               matrix[j * nrows + k] = Math.PI / 2; //second point directly above first
             } else {
               matrix[j * nrows + k] = (-1 * Math.PI) / 2; //second point directly below first
@@ -588,6 +747,13 @@ class PassingBablokRegression implements Regression {
   }
 } //PassingBablokRegression
 
+/* Confidence band for the regression line at points across the range of x */
+interface ConfidenceBand {
+  x: number[];
+  lower: number[];
+  upper: number[];
+}
+
 interface ConfidenceIntervalModel {
   slope: number;
   intercept: number;
@@ -597,8 +763,64 @@ interface ConfidenceIntervalModel {
   slopeUCL: number;
   interceptLCL: number;
   interceptUCL: number;
+  covariance?: number; // covariance of the slope and intercept estimates
+  cusum?: CusumTest; // Passing-Bablok regression only
+  kendall?: KendallTest; // Passing-Bablok regression only
+  anova?: AnovaModel; // Least squares regression only
+  band?: ConfidenceBand; // Bootstrap confidence intervals only
 }
 
+/**
+ * Points evenly spaced across the range of x.
+ *
+ * @param x array of values
+ * @param nPoints number of points. Default is 21
+ * @returns points from the minimum to the maximum of x
+ */
+function bandPoints(x: number[], nPoints: number = BAND_POINTS): number[] {
+  const minX = Math.min(...x);
+  const maxX = Math.max(...x);
+  const points = new Array<number>(nPoints);
+  for (let i = 0; i < nPoints; i++) {
+    points[i] = minX + ((maxX - minX) * i) / (nPoints - 1);
+  }
+  return points;
+} //bandPoints
+
+/**
+ * Confidence band for the regression line from the standard errors and
+ * covariance of the slope and intercept. The standard error of the fitted
+ * value at x0 is sqrt(SE(b0)^2 + x0^2 SE(b1)^2 + 2 x0 cov(b0, b1)) and the
+ * band uses the t distribution with n - 2 degrees of freedom.
+ *
+ * @param model regression results with standard errors and covariance
+ * @param x results from the reference method
+ * @param alpha default is 0.05
+ * @returns confidence band, or undefined if the standard errors are not available
+ */
+function analyticConfidenceBand(
+  model: ConfidenceIntervalModel,
+  x: number[],
+  alpha: number = DEFAULT_ALPHA
+): ConfidenceBand | undefined {
+  const cov = model.covariance ?? NaN;
+  if (!(Number.isFinite(model.slopeSE) && Number.isFinite(model.interceptSE))) return undefined;
+  if (!Number.isFinite(cov)) return undefined;
+  const t = studentt.inv(1 - alpha / 2, x.length - 2);
+  const points = bandPoints(x);
+  const lower: number[] = [];
+  const upper: number[] = [];
+  for (const x0 of points) {
+    const fitted = model.intercept + model.slope * x0;
+    const se = Math.sqrt(
+      model.interceptSE * model.interceptSE + x0 * x0 * model.slopeSE * model.slopeSE + 2 * x0 * cov
+    );
+    lower.push(fitted - t * se);
+    upper.push(fitted + t * se);
+  }
+  return { x: points, lower: lower, upper: upper };
+} //analyticConfidenceBand
+
 /**
  * Calculate a confidence interval using a leave one out jackknife procedure.
  *
@@ -626,34 +848,19 @@ class JackknifeConfidenceInterval {
     let n = this.x.length;
     let size = n - 1;
     if (size <= 1) throw new Error("Sample size must be greater than 2");
-    let vx = new Array<number>(size);
-    let vy = new Array<number>(size);
-    let b_1 = new Array<number>(n);
-    let b_0 = new Array<number>(n);
 
     let reg = this.regression.calculate(this.x, this.y);
     let b1 = reg.slope;
     let b0 = reg.intercept;
 
-    //Iterate over the pool leaving one out
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        if (j < i) {
-          vx[j] = this.x[j];
-          vy[j] = this.y[j];
-        } else if (j > i) {
-          vx[j - 1] = this.x[j];
-          vy[j - 1] = this.y[j];
-        }
-      }
-      let regRes = this.regression.calculate(vx, vy);
-      b_1[i] = regRes.slope;
-      b_0[i] = regRes.intercept;
-    }
+    const jack = this.jackknifeCoefficients();
+    let b_1 = jack.b1;
+    let b_0 = jack.b0;
     //console.log(`size vx = ${vx.length}, size b_1 = ${b_1.length}, b_1 = ${b_1}`);
 
     let se_b1 = this.linnetSE(b_1, b1);
     let se_b0 = this.linnetSE(b_0, b0);
+    let cov = this.linnetCovariance(b_1, b1, b_0, b0);
 
     let z = studentt.inv(1 - this.alpha / 2, size - 1);
 
@@ -666,9 +873,41 @@ class JackknifeConfidenceInterval {
       slopeUCL: b1 + z * se_b1,
       interceptLCL: b0 - z * se_b0,
       interceptUCL: b0 + z * se_b0,
+      covariance: cov,
     };
   }
 
+  /**
+   * Calculate the slope (b1) and intercept (b0) for each leave one out sample.
+   *
+   * @returns arrays of the jackknife coefficients
+   */
+  jackknifeCoefficients(): { b1: number[]; b0: number[] } {
+    let n = this.x.length;
+    let size = n - 1;
+    let vx = new Array<number>(size);
+    let vy = new Array<number>(size);
+    let b_1 = new Array<number>(n);
+    let b_0 = new Array<number>(n);
+
+    //Iterate over the pool leaving one out
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (j < i) {
+          vx[j] = this.x[j];
+          vy[j] = this.y[j];
+        } else if (j > i) {
+          vx[j - 1] = this.x[j];
+          vy[j - 1] = this.y[j];
+        }
+      }
+      let regRes = this.regression.calculate(vx, vy);
+      b_1[i] = regRes.slope;
+      b_0[i] = regRes.intercept;
+    }
+    return { b1: b_1, b0: b_0 };
+  } //jackknifeCoefficients
+
   /**
    * Calculate the standard error using the procedure of Linnet
    *
@@ -685,10 +924,170 @@ class JackknifeConfidenceInterval {
     //console.log(`d_b = ${d_b}`, `n = ${n}`);
     return stdev(d_b, true) / Math.sqrt(n);
   } //linnetSE
+
+  /**
+   * Calculate the covariance of the slope and intercept from the jackknife
+   * pseudo-values, consistent with linnetSE.
+   *
+   * @param b1_jack slopes calculated for each jackknife sample
+   * @param b1_global slope calculated from all the data
+   * @param b0_jack intercepts calculated for each jackknife sample
+   * @param b0_global intercept calculated from all the data
+   * @returns covariance of the slope and intercept
+   */
+  linnetCovariance(
+    b1_jack: number[],
+    b1_global: number,
+    b0_jack: number[],
+    b0_global: number
+  ): number {
+    let n = b1_jack.length;
+    let d_b1 = new Array<number>(n);
+    let d_b0 = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      d_b1[i] = n * b1_global - (n - 1) * b1_jack[i];
+      d_b0[i] = n * b0_global - (n - 1) * b0_jack[i];
+    }
+    return covariance(d_b1, d_b0) / n;
+  } //linnetCovariance
 } //JackknifeConfidenceInterval
 
+/**
+ * Calculate a confidence interval for Deming or Weighted Deming regression
+ * from analytic (large sample) standard errors.
+ *
+ * With v = e - b1 * u the equation error, where u and e are the measurement
+ * errors of x and y, the variance of the slope is estimated as
+ *
+ *   Var(b1) = (s_xx * s_vv + s_uu * s_vv - s_uv^2) / ((n - 1) * s_xx^2)
+ *
+ * where s_xx = m_xy / b1 is the variance of the true values, s_vv is the
+ * residual variance about the line and s_uu, s_uv follow from the error ratio.
+ * Then Var(b0) = s_vv / n + mean(x)^2 * Var(b1) and
+ * Cov(b0, b1) = -mean(x) * Var(b1).
+ *
+ * For Weighted Deming regression the moments are calculated with the weights
+ * of the final iteration, scaled to sum to n, as proposed by Linnet. The
+ * calculation is linear in n, whereas the jackknife repeats the regression
+ * n times, so it is much faster for large data sets.
+ *
+ * Fuller WA. Measurement Error Models. Wiley, New York. 1987. Section 1.3.
+ *
+ * Linnet K. Estimation of the linear relationship between the measurements of
+ * two methods with proportional errors. Stat Med. 1990;9(12):1463-1473.
+ */
+class AnalyticConfidenceInterval {
+  private regression: DemingRegression | WeightedDemingRegression;
+  private errorRatio: number;
+  private alpha: number;
+  private x: number[];
+  private y: number[];
+
+  /**
+   *
+   * @param x results from reference method
+   * @param y results from test method
+   * @param regression Deming or Weighted Deming regression
+   * @param errorRatio error ratio used by the regression
+   * @param alpha default is 0.05
+   */
+  constructor(
+    x: number[],
+    y: number[],
+    regression: DemingRegression | WeightedDemingRegression,
+    errorRatio = DEFAULT_ERROR_RATIO,
+    alpha = DEFAULT_ALPHA
+  ) {
+    this.x = x;
+    this.y = y;
+    this.regression = regression;
+    this.errorRatio = errorRatio;
+    this.alpha = alpha;
+  }
+
+  calculate(): ConfidenceIntervalModel {
+    const n = this.x.length;
+    if (n <= 2) throw new Error("Sample size must be greater than 2");
+
+    const reg = this.regression.calculate(this.x, this.y);
+    const b1 = reg.slope;
+    const b0 = reg.intercept;
+
+    // Weights scaled to sum to n. All equal to 1 for Deming regression.
+    let w = new Array<number>(n).fill(1);
+    if (this.regression instanceof WeightedDemingRegression) {
+      w = this.regression.calculateWeights(this.x, this.y, b0, b1);
+      let sumW = 0;
+      for (let i = 0; i < n; i++) sumW += w[i];
+      w = w.map((wi) => (n * wi) / sumW);
+    }
+
+    // Weighted means and moments
+    let mean_x = 0;
+    let mean_y = 0;
+    for (let i = 0; i < n; i++) {
+      mean_x += w[i] * this.x[i];
+      mean_y += w[i] * this.y[i];
+    }
+    mean_x = mean_x / n;
+    mean_y = mean_y / n;
+    let m_xx = 0;
+    let m_yy = 0;
+    let m_xy = 0;
+    for (let i = 0; i < n; i++) {
+      m_xx += w[i] * (this.x[i] - mean_x) * (this.x[i] - mean_x);
+      m_yy += w[i] * (this.y[i] - mean_y) * (this.y[i] - mean_y);
+      m_xy += w[i] * (this.x[i] - mean_x) * (this.y[i] - mean_y);
+    }
+    m_xx = m_xx / (n - 1);
+    m_yy = m_yy / (n - 1);
+    m_xy = m_xy / (n - 1);
+
+    // Error variances. The error ratio is the variance of the x errors
+    // divided by the variance of the y errors.
+    const lambda = this.errorRatio;
+    const s_vv = ((n - 1) / (n - 2)) * (m_yy - 2 * b1 * m_xy + b1 * b1 * m_xx);
+    const s_uu = (lambda * s_vv) / (1 + lambda * b1 * b1);
+    const s_uv = -b1 * s_uu;
+    const s_xx = m_xy / b1;
+
+    const var_b1 = (s_xx * s_vv + s_uu * s_vv - s_uv * s_uv) / ((n - 1) * s_xx * s_xx);
+    const var_b0 = s_vv / n + mean_x * mean_x * var_b1;
+    const se_b1 = Math.sqrt(var_b1);
+    const se_b0 = Math.sqrt(var_b0);
+
+    const t = studentt.inv(1 - this.alpha / 2, n - 2);
+
+    return {
+      slope: b1,
+      intercept: b0,
+      slopeSE: se_b1,
+      interceptSE: se_b0,
+      slopeLCL: b1 - t * se_b1,
+      slopeUCL: b1 + t * se_b1,
+      interceptLCL: b0 - t * se_b0,
+      interceptUCL: b0 + t * se_b0,
+      covariance: -mean_x * var_b1,
+    };
+  }
+} //AnalyticConfidenceInterval
+
 /* Calculate a confidence interval using a bootstrap procedure.
  *
+ * Three types of interval are available, consistent with those
+ * offered by the mcr package.
+ *  - "bootstrap": quantiles of the bootstrap distribution (percentile method)
+ *  - "bca": bias corrected and accelerated percentile method. The acceleration
+ *    is estimated from the jackknife coefficients.
+ *  - "tboot": Student-t (percentile-t) method. The standard error of each
+ *    bootstrap sample is estimated by the jackknife, so this is considerably
+ *    slower than the other two methods.
+ *
+ * The standard errors are always reported as the standard deviation of the
+ * bootstrap estimates.
+ *
+ * Efron B, Tibshirani RJ. An Introduction to the Bootstrap.
+ * Chapman & Hall, New York. 1993. Chapters 12 and 14.
  */
 class BootstrapConfidenceInterval {
   private x: number[];
@@ -696,69 +1095,221 @@ class BootstrapConfidenceInterval {
   private regression: Regression;
   private alpha: number;
   private bootstrapN: number;
+  private bootstrapMethod: string;
+  private random: RandomGenerator;
+  private progress?: ProgressCallback;
 
+  /**
+   *
+   * @param x results from reference method
+   * @param y results from test method
+   * @param regression regression procedure applied to each bootstrap sample
+   * @param bootstrapN number of bootstrap samples. Default is 10000
+   * @param alpha default is 0.05
+   * @param bootstrapMethod "bootstrap" (percentile), "bca" or "tboot". Default is "bootstrap"
+   * @param random random number generator used for resampling. Default is Math.random
+   * @param progress optional callback reporting the number of bootstrap samples completed
+   */
   constructor(
     x: number[],
     y: number[],
     regression: Regression,
     bootstrapN = DEFAULT_BOOTSTRAP_N,
-    alpha = DEFAULT_ALPHA
+    alpha = DEFAULT_ALPHA,
+    bootstrapMethod: string = CI_METHOD.BOOTSTRAP,
+    random: RandomGenerator = Math.random,
+    progress?: ProgressCallback
   ) {
     this.x = x;
     this.y = y;
     this.regression = regression;
     this.bootstrapN = bootstrapN;
     this.alpha = alpha;
+    this.bootstrapMethod = bootstrapMethod;
+    this.random = random;
+    this.progress = progress;
+    if (!BOOTSTRAP_METHODS.includes(bootstrapMethod)) {
+      throw new Error(`Unknown bootstrap method: ${bootstrapMethod}`);
+    }
   }
+
   calculate(): ConfidenceIntervalModel {
     const global_coefficents = this.regression.calculate(this.x, this.y);
-
-    const coefficients = this.calculateBootstrapRegression(this.x, this.y, this.bootstrapN);
-
-    const slopeCI = quantile(coefficients.b1, [this.alpha / 2, 1 - this.alpha / 2]);
-    const interceptCI = quantile(coefficients.b0, [this.alpha / 2, 1 - this.alpha / 2]);
+    const probs = [this.alpha / 2, 1 - this.alpha / 2];
+    const studentized = this.bootstrapMethod === CI_METHOD.TBOOT;
+
+    const coefficients = this.calculateBootstrapRegression(
+      this.x,
+      this.y,
+      this.bootstrapN,
+      studentized
+    );
+
+    let slopeCI: number[];
+    let interceptCI: number[];
+    if (this.bootstrapMethod === CI_METHOD.BCA) {
+      const jackknife = new JackknifeConfidenceInterval(this.x, this.y, this.regression);
+      const jack = jackknife.jackknifeCoefficients();
+      slopeCI = this.bcaInterval(coefficients.b1, global_coefficents.slope, jack.b1);
+      interceptCI = this.bcaInterval(coefficients.b0, global_coefficents.intercept, jack.b0);
+    } else if (studentized) {
+      const jackknife = new JackknifeConfidenceInterval(this.x, this.y, this.regression);
+      const se = jackknife.calculate();
+      slopeCI = this.studentizedInterval(
+        coefficients.b1,
+        coefficients.b1SE,
+        global_coefficents.slope,
+        se.slopeSE
+      );
+      interceptCI = this.studentizedInterval(
+        coefficients.b0,
+        coefficients.b0SE,
+        global_coefficents.intercept,
+        se.interceptSE
+      );
+    } else {
+      slopeCI = quantile(coefficients.b1, probs) as number[];
+      interceptCI = quantile(coefficients.b0, probs) as number[];
+    }
 
     return {
       slope: global_coefficents.slope,
       intercept: global_coefficents.intercept,
-      slopeSE: NaN,
-      interceptSE: NaN,
-      slopeLCL: slopeCI === undefined ? NaN : slopeCI[0],
-      slopeUCL: slopeCI === undefined ? NaN : slopeCI[1],
-      interceptLCL: interceptCI === undefined ? NaN : interceptCI[0],
-      interceptUCL: interceptCI === undefined ? NaN : interceptCI[1],
+      slopeSE: stdev(coefficients.b1, true),
+      interceptSE: stdev(coefficients.b0, true),
+      covariance: covariance(coefficients.b1, coefficients.b0),
+      slopeLCL: slopeCI[0],
+      slopeUCL: slopeCI[1],
+      interceptLCL: interceptCI[0],
+      interceptUCL: interceptCI[1],
+      band: this.quantileBand(coefficients.b1, coefficients.b0),
     };
   }
 
+  /**
+   * Confidence band from the quantiles of the fitted values of the
+   * bootstrap regression lines at points across the range of x.
+   *
+   * @param b1 slopes of the bootstrap samples
+   * @param b0 intercepts of the bootstrap samples
+   * @returns confidence band
+   */
+  quantileBand(b1: number[], b0: number[]): ConfidenceBand {
+    const probs = [this.alpha / 2, 1 - this.alpha / 2];
+    const points = bandPoints(this.x);
+    const lower: number[] = [];
+    const upper: number[] = [];
+    for (const x0 of points) {
+      const fitted = b1.map((slope, i) => b0[i] + slope * x0);
+      const q = quantile(fitted, probs) ?? [NaN, NaN];
+      lower.push(q[0]);
+      upper.push(q[1]);
+    }
+    return { x: points, lower: lower, upper: upper };
+  } //quantileBand
+
   //Calculate regression on each of the bootstrap samples
-  //and return arrays containing the slopes (b1) and intercepts (b0)
+  //and return arrays containing the slopes (b1) and intercepts (b0).
+  //If studentized is true the jackknife standard errors of each
+  //bootstrap sample are also returned.
   calculateBootstrapRegression(
     x: number[],
     y: number[],
-    bootstrapN: number
-  ): { b1: number[]; b0: number[] } {
+    bootstrapN: number,
+    studentized = false
+  ): { b1: number[]; b0: number[]; b1SE: number[]; b0SE: number[] } {
     const b1 = new Array<number>(bootstrapN);
     const b0 = new Array<number>(bootstrapN);
+    const b1SE: number[] = [];
+    const b0SE: number[] = [];
+    const reportProgress = throttleProgress(bootstrapN, this.progress);
     for (let i = 0; i < bootstrapN; i++) {
       let bs = this.getBootstrapSamples(x, y);
-      let reg = this.regression.calculate(bs.x, bs.y);
-      b1[i] = reg.slope;
-      b0[i] = reg.intercept;
+      if (studentized) {
+        let jackknife = new JackknifeConfidenceInterval(bs.x, bs.y, this.regression);
+        let reg = jackknife.calculate();
+        b1[i] = reg.slope;
+        b0[i] = reg.intercept;
+        b1SE.push(reg.slopeSE);
+        b0SE.push(reg.interceptSE);
+      } else {
+        let reg = this.regression.calculate(bs.x, bs.y);
+        b1[i] = reg.slope;
+        b0[i] = reg.intercept;
+      }
+      reportProgress(i + 1);
     }
-    b1.sort((a, b) => a - b);
-    b0.sort((a, b) => a - b);
     return {
       b1: b1,
       b0: b0,
+      b1SE: b1SE,
+      b0SE: b0SE,
     };
   }
 
+  /**
+   * Bias corrected and accelerated (BCa) confidence interval.
+   *
+   * @param boot coefficients estimated from each bootstrap sample
+   * @param estimate coefficient estimated from all the data
+   * @param jack coefficients estimated from each jackknife sample
+   * @returns lower and upper confidence limits
+   */
+  bcaInterval(boot: number[], estimate: number, jack: number[]): number[] {
+    const nBoot = boot.length;
+    let nLess = 0;
+    for (let i = 0; i < nBoot; i++) {
+      if (boot[i] < estimate) nLess += 1;
+    }
+    // Keep the proportion away from 0 and 1 so the bias correction is finite
+    const prop = Math.min(Math.max(nLess, 1), nBoot - 1) / nBoot;
+    const z0 = normal.inv(prop, 0, 1);
+
+    // Acceleration from the skewness of the jackknife coefficients
+    const jackMean = mean(jack);
+    let num = 0;
+    let den = 0;
+    for (let i = 0; i < jack.length; i++) {
+      const d = jackMean - jack[i];
+      num += Math.pow(d, 3);
+      den += Math.pow(d, 2);
+    }
+    const a = den === 0 ? 0 : num / (6 * Math.pow(den, 1.5));
+
+    const probs = [this.alpha / 2, 1 - this.alpha / 2].map((p) => {
+      const z = z0 + normal.inv(p, 0, 1);
+      return normal.cdf(z0 + z / (1 - a * z), 0, 1);
+    });
+    return quantile(boot, probs) as number[];
+  } //bcaInterval
+
+  /**
+   * Student-t (percentile-t) confidence interval.
+   *
+   * @param boot coefficients estimated from each bootstrap sample
+   * @param bootSE standard errors of the coefficients of each bootstrap sample
+   * @param estimate coefficient estimated from all the data
+   * @param se standard error of the coefficient estimated from all the data
+   * @returns lower and upper confidence limits, NaN if no bootstrap sample has a standard error
+   */
+  studentizedInterval(boot: number[], bootSE: number[], estimate: number, se: number): number[] {
+    const t: number[] = [];
+    for (let i = 0; i < boot.length; i++) {
+      if (bootSE[i] > 0) {
+        t.push((boot[i] - estimate) / bootSE[i]);
+      }
+    }
+    const tq = quantile(t, [this.alpha / 2, 1 - this.alpha / 2]);
+    if (tq === undefined) return [NaN, NaN];
+    return [estimate - tq[1] * se, estimate - tq[0] * se];
+  } //studentizedInterval
+
   //Sample with replacement
   getBootstrapSamples(x: number[], y: number[]): { x: number[]; y: number[] } {
     const sx = new Array<number>(x.length);
     const sy = new Array<number>(y.length);
     for (let i = 0; i < x.length; i++) {
-      let index = Math.floor(Math.random() * x.length);
+      let index = Math.floor(this.random() * x.length);
       sx[i] = x[index];
       sy[i] = y[index];
     }
@@ -777,7 +1328,23 @@ class MethodCompRegression implements Regression {
   private alpha: number;
   private ciMethod: string;
   private bootstrapN: number;
+  private random: RandomGenerator;
+  private progress?: ProgressCallback;
 
+  /**
+   * Single entry point for the method comparison regression procedures
+   * used by the task pane and the custom functions.
+   *
+   * @param regressionMethod one of the REG_METHOD values
+   * @param errorRatio error ratio for Deming and Weighted Deming regression. Default is 1
+   * @param iterMax maximum iterations for Weighted Deming regression. Default is 30
+   * @param threshold convergence threshold for Weighted Deming regression. Default is 0.000001
+   * @param alpha default is 0.05
+   * @param ciMethod one of the CI_METHOD values
+   * @param bootstrapN number of bootstrap samples. Default is 10000
+   * @param random random number generator used for resampling. Default is Math.random
+   * @param progress optional callback reporting the number of bootstrap samples completed
+   */
   constructor(
     regressionMethod: string,
     errorRatio: number = DEFAULT_ERROR_RATIO,
@@ -785,7 +1352,9 @@ class MethodCompRegression implements Regression {
     threshold: number = DEFAULT_THRESHOLD,
     alpha: number = DEFAULT_ALPHA,
     ciMethod: string = CI_METHOD.DEFAULT,
-    bootstrapN: number = DEFAULT_BOOTSTRAP_N
+    bootstrapN: number = DEFAULT_BOOTSTRAP_N,
+    random: RandomGenerator = Math.random,
+    progress?: ProgressCallback
   ) {
     this.regressionMethod = regressionMethod;
     this.errorRatio = errorRatio;
@@ -794,10 +1363,12 @@ class MethodCompRegression implements Regression {
     this.alpha = alpha;
     this.ciMethod = ciMethod;
     this.bootstrapN = bootstrapN;
+    this.random = random;
+    this.progress = progress;
   }
 
   calculate(x: number[], y: number[]): ConfidenceIntervalModel {
-    let res = {
+    let res: ConfidenceIntervalModel = {
       slope: NaN,
       intercept: NaN,
       slopeLCL: NaN,
@@ -806,6 +1377,7 @@ class MethodCompRegression implements Regression {
       interceptUCL: NaN,
       slopeSE: NaN,
       interceptSE: NaN,
+      covariance: NaN,
     };
     if (this.regressionMethod === REG_METHOD.DEMING) {
       let regression = new DemingRegression(this.errorRatio);
@@ -821,8 +1393,18 @@ class MethodCompRegression implements Regression {
         res.interceptUCL = ciRes.interceptUCL;
         res.slopeSE = ciRes.slopeSE;
         res.interceptSE = ciRes.interceptSE;
-      } else if (this.ciMethod === CI_METHOD.BOOTSTRAP) {
-        let ci = new BootstrapConfidenceInterval(x, y, regression, this.bootstrapN, this.alpha);
+        res.covariance = ciRes.covariance ?? NaN;
+      } else if (BOOTSTRAP_METHODS.includes(this.ciMethod)) {
+        let ci = new BootstrapConfidenceInterval(
+          x,
+          y,
+          regression,
+          this.bootstrapN,
+          this.alpha,
+          this.ciMethod,
+          this.random,
+          this.progress
+        );
         let ciRes = ci.calculate();
         res.slope = reg.slope;
         res.intercept = reg.intercept;
@@ -830,6 +1412,24 @@ class MethodCompRegression implements Regression {
         res.slopeUCL = ciRes.slopeUCL;
         res.interceptLCL = ciRes.interceptLCL;
         res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+        res.band = ciRes.band;
+      } else if (this.ciMethod === CI_METHOD.ANALYTIC) {
+        let ci = new AnalyticConfidenceInterval(x, y, regression, this.errorRatio, this.alpha);
+        let ciRes = ci.calculate();
+        res.slope = reg.slope;
+        res.intercept = reg.intercept;
+        res.slopeLCL = ciRes.slopeLCL;
+        res.slopeUCL = ciRes.slopeUCL;
+        res.interceptLCL = ciRes.interceptLCL;
+        res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+      } else {
+        throw new Error(`Unknown confidence interval method: ${this.ciMethod}`);
       }
     } else if (this.regressionMethod === REG_METHOD.WDEMING) {
       let regression = new WeightedDemingRegression(this.errorRatio, this.iterMax, this.threshold);
@@ -845,8 +1445,31 @@ class MethodCompRegression implements Regression {
         res.interceptUCL = ciRes.interceptUCL;
         res.slopeSE = ciRes.slopeSE;
         res.interceptSE = ciRes.interceptSE;
-      } else if (this.ciMethod === CI_METHOD.BOOTSTRAP) {
-        let ci = new BootstrapConfidenceInterval(x, y, regression, this.bootstrapN, this.alpha);
+        res.covariance = ciRes.covariance ?? NaN;
+      } else if (BOOTSTRAP_METHODS.includes(this.ciMethod)) {
+        let ci = new BootstrapConfidenceInterval(
+          x,
+          y,
+          regression,
+          this.bootstrapN,
+          this.alpha,
+          this.ciMethod,
+          this.random,
+          this.progress
+        );
+        let ciRes = ci.calculate();
+        res.slope = reg.slope;
+        res.intercept = reg.intercept;
+        res.slopeLCL = ciRes.slopeLCL;
+        res.slopeUCL = ciRes.slopeUCL;
+        res.interceptLCL = ciRes.interceptLCL;
+        res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+        res.band = ciRes.band;
+      } else if (this.ciMethod === CI_METHOD.ANALYTIC) {
+        let ci = new AnalyticConfidenceInterval(x, y, regression, this.errorRatio, this.alpha);
         let ciRes = ci.calculate();
         res.slope = reg.slope;
         res.intercept = reg.intercept;
@@ -854,10 +1477,17 @@ class MethodCompRegression implements Regression {
         res.slopeUCL = ciRes.slopeUCL;
         res.interceptLCL = ciRes.interceptLCL;
         res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+      } else {
+        throw new Error(`Unknown confidence interval method: ${this.ciMethod}`);
       }
     } else if (this.regressionMethod === REG_METHOD.PABA) {
       let regression = new PassingBablokRegression(this.alpha);
       let reg = regression.calculate(x, y);
+      res.cusum = reg.cusum;
+      res.kendall = reg.kendall;
       if (this.ciMethod === CI_METHOD.DEFAULT) {
         res.slope = reg.slope;
         res.intercept = reg.intercept;
@@ -865,8 +1495,18 @@ class MethodCompRegression implements Regression {
         res.slopeUCL = reg.slopeUCL;
         res.interceptLCL = reg.interceptLCL;
         res.interceptUCL = reg.interceptUCL;
-      } else if (this.ciMethod === CI_METHOD.BOOTSTRAP) {
-        let ci = new BootstrapConfidenceInterval(x, y, regression, this.bootstrapN, this.alpha);
+      } else if (BOOTSTRAP_METHODS.includes(this.ciMethod)) {
+        // Resamples use the direction of the correlation of the full data
+        let ci = new BootstrapConfidenceInterval(
+          x,
+          y,
+          new PassingBablokRegression(this.alpha, reg.kendall?.positive ?? true),
+          this.bootstrapN,
+          this.alpha,
+          this.ciMethod,
+          this.random,
+          this.progress
+        );
         let ciRes = ci.calculate();
         res.slope = reg.slope;
         res.intercept = reg.intercept;
@@ -874,6 +1514,71 @@ class MethodCompRegression implements Regression {
         res.slopeUCL = ciRes.slopeUCL;
         res.interceptLCL = ciRes.interceptLCL;
         res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+        res.band = ciRes.band;
+      } else if (this.ciMethod === CI_METHOD.ANALYTIC) {
+        throw new Error(
+          "Analytic confidence intervals are only available for Deming and Weighted Deming regression."
+        );
+      } else {
+        throw new Error(`Unknown confidence interval method: ${this.ciMethod}`);
+      }
+    } else if (
+      this.regressionMethod === REG_METHOD.OLS ||
+      this.regressionMethod === REG_METHOD.WOLS
+    ) {
+      let weighted = this.regressionMethod === REG_METHOD.WOLS;
+      let regression = new LeastSquaresRegression(weighted);
+      let parametric = new LeastSquaresConfidenceInterval(this.alpha, weighted).calculate(x, y);
+      res.anova = parametric.anova;
+      if (this.ciMethod === CI_METHOD.DEFAULT || this.ciMethod === CI_METHOD.ANALYTIC) {
+        res.slope = parametric.slope;
+        res.intercept = parametric.intercept;
+        res.slopeLCL = parametric.slopeLCL;
+        res.slopeUCL = parametric.slopeUCL;
+        res.interceptLCL = parametric.interceptLCL;
+        res.interceptUCL = parametric.interceptUCL;
+        res.slopeSE = parametric.slopeSE;
+        res.interceptSE = parametric.interceptSE;
+        res.covariance = parametric.covariance ?? NaN;
+      } else if (this.ciMethod === CI_METHOD.JACKKNIFE) {
+        let ci = new JackknifeConfidenceInterval(x, y, regression, this.alpha);
+        let ciRes = ci.calculate();
+        res.slope = parametric.slope;
+        res.intercept = parametric.intercept;
+        res.slopeLCL = ciRes.slopeLCL;
+        res.slopeUCL = ciRes.slopeUCL;
+        res.interceptLCL = ciRes.interceptLCL;
+        res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+      } else if (BOOTSTRAP_METHODS.includes(this.ciMethod)) {
+        let ci = new BootstrapConfidenceInterval(
+          x,
+          y,
+          regression,
+          this.bootstrapN,
+          this.alpha,
+          this.ciMethod,
+          this.random,
+          this.progress
+        );
+        let ciRes = ci.calculate();
+        res.slope = parametric.slope;
+        res.intercept = parametric.intercept;
+        res.slopeLCL = ciRes.slopeLCL;
+        res.slopeUCL = ciRes.slopeUCL;
+        res.interceptLCL = ciRes.interceptLCL;
+        res.interceptUCL = ciRes.interceptUCL;
+        res.slopeSE = ciRes.slopeSE;
+        res.interceptSE = ciRes.interceptSE;
+        res.covariance = ciRes.covariance ?? NaN;
+        res.band = ciRes.band;
+      } else {
+        throw new Error(`Unknown confidence interval method: ${this.ciMethod}`);
       }
     } else {
       throw new Error(`Unknown regression method: ${this.regressionMethod}`);
@@ -890,14 +1595,22 @@ export {
   DEFAULT_ITER_MAX,
   DEFAULT_THRESHOLD,
   DEFAULT_BOOTSTRAP_N,
+  BAND_POINTS,
+  BOOTSTRAP_METHODS,
   DemingRegression,
   WeightedDemingRegression,
   PassingBablokRegression,
   JackknifeConfidenceInterval,
+  AnalyticConfidenceInterval,
   BootstrapConfidenceInterval,
   MethodCompRegression,
   RegressionModel,
   ConfidenceIntervalModel,
+  ConfidenceBand,
+  CusumTest,
+  KendallTest,
+  AnovaModel,
   Regression,
   quantile,
+  analyticConfidenceBand,
 };
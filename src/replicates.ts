@@ -0,0 +1,188 @@
+/**
+ * Statistics from duplicate measurements in method comparison studies.
+ *
+ * The repeatability of each method is estimated from the differences between
+ * duplicates, s_r^2 = sum(d^2) / (2n) with n degrees of freedom, and the
+ * repeatability CV from the relative differences d / mean in the same way.
+ * Confidence limits use the chi-square distribution.
+ *
+ * The error ratio for Deming regression is the ratio of the error variances
+ * of the reference (x) and test (y) methods, s_rx^2 / s_ry^2, or the ratio of
+ * the squared CVs for Weighted Deming regression. Its confidence limits use
+ * the F distribution.
+ *
+ * When the means of replicates are compared, the SD of the differences
+ * between the means underestimates the SD of the differences between single
+ * measurements. Bland and Altman adjust it to
+ *
+ *   s^2 = s_dbar^2 + (1 - 1/m_x) s_rx^2 + (1 - 1/m_y) s_ry^2
+ *
+ * where m_x and m_y are the numbers of replicates, and the limits of
+ * agreement are the mean difference +/- 1.96 s.
+ *
+ * Bland JM, Altman DG. Measuring agreement in method comparison studies.
+ * Stat Methods Med Res. 1999;8(2):135-160.
+ *
+ * @author Douglas Chesher
+ */
+
+import { centralF, chisquare, mean, stdev, studentt } from "jstat-esm";
+import { LOA_Z } from "./blandaltman";
+
+/* Repeatability of a method estimated from duplicates */
+interface Repeatability {
+  n: number; // Number of duplicate pairs
+  df: number;
+  sd: number;
+  sdLCL: number;
+  sdUCL: number;
+  cv: number;
+  cvLCL: number;
+  cvUCL: number;
+}
+
+/* Ratio of the error variances of the reference and test methods */
+interface ErrorRatio {
+  ratio: number;
+  lcl: number;
+  ucl: number;
+}
+
+/* Bland-Altman statistics for the means of replicates */
+interface ReplicateBlandAltman {
+  n: number;
+  bias: number; // Mean difference of the means of replicates
+  biasLCL: number;
+  biasUCL: number;
+  sdMeans: number; // SD of the differences of the means of replicates
+  sd: number; // SD adjusted to single measurements
+  upperLoA: number;
+  lowerLoA: number;
+}
+
+/**
+ * Estimate the repeatability SD and CV from duplicate measurements.
+ *
+ * @param r1 first replicate
+ * @param r2 second replicate
+ * @param alpha for the confidence limits. Default is 0.05
+ * @returns repeatability with confidence limits
+ */
+function repeatability(r1: number[], r2: number[], alpha: number = 0.05): Repeatability {
+  const n = r1.length;
+  if (n !== r2.length || n === 0) {
+    throw new Error("Replicate arrays must have the same non-zero length.");
+  }
+  let ss = 0;
+  let ssRel = 0;
+  for (let i = 0; i < n; i++) {
+    const d = r1[i] - r2[i];
+    const m = (r1[i] + r2[i]) / 2;
+    ss += d * d;
+    ssRel += (d / m) * (d / m);
+  }
+  const df = n;
+  const sd = Math.sqrt(ss / (2 * n));
+  const cv = Math.sqrt(ssRel / (2 * n));
+  const lower = Math.sqrt(df / chisquare.inv(1 - alpha / 2, df));
+  const upper = Math.sqrt(df / chisquare.inv(alpha / 2, df));
+  return {
+    n: n,
+    df: df,
+    sd: sd,
+    sdLCL: sd * lower,
+    sdUCL: sd * upper,
+    cv: cv,
+    cvLCL: cv * lower,
+    cvUCL: cv * upper,
+  };
+} //repeatability
+
+/**
+ * Calculate the error ratio from the repeatability of the two methods.
+ *
+ * @param x repeatability of the reference method
+ * @param y repeatability of the test method
+ * @param useCV true to use the ratio of the squared CVs (Weighted Deming)
+ * @param alpha for the confidence limits. Default is 0.05
+ * @returns error ratio with confidence limits
+ */
+function errorRatio(
+  x: Repeatability,
+  y: Repeatability,
+  useCV: boolean = false,
+  alpha: number = 0.05
+): ErrorRatio {
+  const ratio = useCV ? (x.cv * x.cv) / (y.cv * y.cv) : (x.sd * x.sd) / (y.sd * y.sd);
+  return {
+    ratio: ratio,
+    lcl: ratio / centralF.inv(1 - alpha / 2, x.df, y.df),
+    ucl: ratio / centralF.inv(alpha / 2, x.df, y.df),
+  };
+} //errorRatio
+
+/**
+ * Bland-Altman statistics for the means of replicates with the limits of
+ * agreement adjusted to single measurements. A method measured in singlicate
+ * has an empty second replicate array.
+ *
+ * @param x1 first replicate of the reference method
+ * @param x2 second replicate of the reference method, or empty
+ * @param y1 first replicate of the test method
+ * @param y2 second replicate of the test method, or empty
+ * @param diffType "rel" for relative differences, otherwise absolute differences
+ * @param alpha for the confidence limits of the bias. Default is 0.05
+ * @returns Bland-Altman statistics
+ */
+function replicateBlandAltman(
+  x1: number[],
+  x2: number[],
+  y1: number[],
+  y2: number[],
+  diffType: string,
+  alpha: number = 0.05
+): ReplicateBlandAltman {
+  const n = x1.length;
+  if (n !== y1.length || n < 3) {
+    throw new Error("Input arrays must have the same length, greater than 2.");
+  }
+  const rel = diffType === "rel";
+  const diffs = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    const mx = x2.length > 0 ? (x1[i] + x2[i]) / 2 : x1[i];
+    const my = y2.length > 0 ? (y1[i] + y2[i]) / 2 : y1[i];
+    diffs[i] = rel ? (my - mx) / ((mx + my) / 2) : my - mx;
+  }
+  const bias = mean(diffs);
+  const sdMeans = stdev(diffs, true);
+
+  // Add the within-subject variance lost by averaging duplicates, (1 - 1/2) s_r^2
+  const withinVariance = (r1: number[], r2: number[]): number => {
+    const rep = repeatability(r1, r2);
+    return rel ? rep.cv * rep.cv : rep.sd * rep.sd;
+  };
+  let variance = sdMeans * sdMeans;
+  if (x2.length > 0) variance += withinVariance(x1, x2) / 2;
+  if (y2.length > 0) variance += withinVariance(y1, y2) / 2;
+  const sd = Math.sqrt(variance);
+  const t = studentt.inv(1 - alpha / 2, n - 1);
+  return {
+    n: n,
+    bias: bias,
+    biasLCL: bias - (t * sdMeans) / Math.sqrt(n),
+    biasUCL: bias + (t * sdMeans) / Math.sqrt(n),
+    sdMeans: sdMeans,
+    sd: sd,
+    upperLoA: bias + LOA_Z * sd,
+    lowerLoA: bias - LOA_Z * sd,
+  };
+} //replicateBlandAltman
+
+export {
+  Repeatability,
+  ErrorRatio,
+  ReplicateBlandAltman,
+  repeatability,
+  errorRatio,
+  replicateBlandAltman,
+};
@@ -0,0 +1,116 @@
+/**
+ * Residual diagnostics for method comparison regression.
+ *
+ * The residual of each sample is the signed distance from the point to the
+ * regression line in the direction used by the regression. For Deming and
+ * Weighted Deming regression this is the direction given by the error ratio,
+ * which is perpendicular to the line when the error ratio is 1. For
+ * Passing-Bablok regression the perpendicular distance is used rather than the
+ * ranks of the points about the line, as ranks cannot be compared with a fixed
+ * limit and do not show how far a sample lies from the line. For least squares
+ * regression the vertical distance is used.
+ *
+ * Deming residuals are standardized by the residual SD with n - 2 degrees of
+ * freedom, after multiplying by the square root of the weights for Weighted
+ * Deming regression, or by 1/x for weighted least squares. As Passing-Bablok
+ * regression is rank based, its residuals are standardized by the median and
+ * the median absolute deviation (MAD).
+ *
+ * Samples with an absolute standardized residual greater than the limit are
+ * flagged for review.
+ *
+ * @author Douglas Chesher
+ */
+
+import { median } from "jstat-esm";
+import { LeastSquaresRegression } from "./lsregression";
+import {
+  DEFAULT_ERROR_RATIO,
+  REG_METHOD,
+  RegressionModel,
+  WeightedDemingRegression,
+} from "./regression";
+
+const RESIDUAL_LIMIT = 3; // Standardized residuals beyond this limit are flagged
+const MAD_SCALE = 1.4826; // Scales the MAD to the SD of a normal distribution
+
+/* Residuals for each sample */
+interface ResidualDiagnostics {
+  residuals: number[];
+  standardized: number[];
+  flagged: boolean[]; // True if the absolute standardized residual exceeds the limit
+  limit: number;
+}
+
+/**
+ * Calculate the residuals from a method comparison regression.
+ *
+ * @param x reference method results
+ * @param y test method results
+ * @param model regression results
+ * @param regressionMethod one of the REG_METHOD values
+ * @param errorRatio error ratio used by Deming and Weighted Deming regression. Default is 1
+ * @param limit flag limit for the absolute standardized residuals. Default is 3
+ * @returns residuals, standardized residuals and flags
+ */
+function regressionResiduals(
+  x: number[],
+  y: number[],
+  model: RegressionModel,
+  regressionMethod: string,
+  errorRatio: number = DEFAULT_ERROR_RATIO,
+  limit: number = RESIDUAL_LIMIT
+): ResidualDiagnostics {
+  const n = x.length;
+  if (n !== y.length || n <= 2) {
+    throw new Error("Input arrays must have the same length, greater than 2.");
+  }
+  const b0 = model.intercept;
+  const b1 = model.slope;
+  let lambda = regressionMethod === REG_METHOD.PABA ? 1 : errorRatio;
+  if (regressionMethod === REG_METHOD.OLS || regressionMethod === REG_METHOD.WOLS) {
+    lambda = 0; // Vertical residuals
+  }
+
+  // Distance from each point to its estimated true value on the line
+  const residuals = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    const d = y[i] - (b0 + b1 * x[i]);
+    const dx = (lambda * b1 * d) / (1 + lambda * b1 * b1);
+    const dy = d / (1 + lambda * b1 * b1);
+    residuals[i] = Math.sign(d) * Math.sqrt(dx * dx + dy * dy);
+  }
+
+  // Weights scaled to a mean of 1
+  let w = new Array<number>(n).fill(1);
+  if (regressionMethod === REG_METHOD.WDEMING) {
+    w = new WeightedDemingRegression(errorRatio).calculateWeights(x, y, b0, b1);
+  } else if (regressionMethod === REG_METHOD.WOLS) {
+    w = new LeastSquaresRegression(true).weights(x);
+  }
+  if (regressionMethod === REG_METHOD.WDEMING || regressionMethod === REG_METHOD.WOLS) {
+    let sumW = 0;
+    for (let i = 0; i < n; i++) sumW += w[i];
+    w = w.map((wi) => (n * wi) / sumW);
+  }
+
+  let center = 0;
+  let scale = 0;
+  if (regressionMethod === REG_METHOD.PABA) {
+    center = median(residuals);
+    scale = MAD_SCALE * median(residuals.map((r) => Math.abs(r - center)));
+  } else {
+    for (let i = 0; i < n; i++) scale += w[i] * residuals[i] * residuals[i];
+    scale = Math.sqrt(scale / (n - 2));
+  }
+
+  const standardized = residuals.map((r, i) => (Math.sqrt(w[i]) * (r - center)) / scale);
+  return {
+    residuals: residuals,
+    standardized: standardized,
+    flagged: standardized.map((z) => Math.abs(z) > limit),
+    limit: limit,
+  };
+} //regressionResiduals
+
+export { RESIDUAL_LIMIT, ResidualDiagnostics, regressionResiduals };
@@ -0,0 +1,48 @@
+/* Calculation progress component.
+ *
+ * Displays the progress of a calculation running in the calculation
+ * worker with a button to cancel it. Nothing is displayed if no
+ * calculation is running.
+ *
+ * Author: Douglas Chesher
+ */
+import * as React from "react";
+import { Button, Field, ProgressBar, makeStyles, tokens } from "@fluentui/react-components";
+
+interface CalculationProgressProps {
+  progress?: number; // Proportion complete, undefined if no calculation is running
+  onCancel: () => void;
+  uitext: { [key: string]: string };
+}
+
+const useStyles = makeStyles({
+  root: {
+    display: "flex",
+    alignItems: "center",
+    gap: tokens.spacingHorizontalS,
+    marginLeft: tokens.spacingHorizontalXS,
+    marginBottom: tokens.spacingVerticalXS,
+  },
+  bar: {
+    flexGrow: 1,
+  },
+});
+
+export default function CalculationProgress(props: CalculationProgressProps) {
+  const styles = useStyles();
+  if (props.progress === undefined) {
+    return null;
+  }
+  return (
+    <div className={styles.root}>
+      <Field
+        className={styles.bar}
+        validationMessage={props.uitext["lbl_calculating"]}
+        validationState="none"
+      >
+        <ProgressBar value={props.progress} max={1} />
+      </Field>
+      <Button onClick={props.onCancel}>{props.uitext["btn_cancel"]}</Button>
+    </div>
+  );
+}
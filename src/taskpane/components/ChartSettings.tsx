@@ -0,0 +1,210 @@
+/**
+ * Chart options panel.
+ *
+ * Sets the titles, axis titles, units, axis bounds, log scales and colours of
+ * the method comparison charts. The options are saved in the workbook settings
+ * so that every report produced from the workbook looks the same. They are
+ * loaded from the workbook by the comparison pane.
+ *
+ * @author Douglas Chesher
+ */
+
+/* global Office */
+
+import * as React from "react";
+
+import {
+  makeStyles,
+  Button,
+  Checkbox,
+  Field,
+  Input,
+  Select,
+  Tooltip,
+  tokens,
+} from "@fluentui/react-components";
+
+import {
+  AxisOptions,
+  CHART_NAMES,
+  CHART_OPTIONS_SETTING,
+  ChartName,
+  ChartOptions,
+  ChartPalette,
+  defaultChartOptions,
+} from "../../chartoptions";
+
+interface ChartSettingsProps {
+  chartOptions: ChartOptions;
+  setChartOptions: React.Dispatch<React.SetStateAction<ChartOptions>>;
+  notify: (intent: string, message: string) => void;
+  uitext: { [key: string]: string };
+}
+
+const useStyles = makeStyles({
+  field: {
+    marginLeft: tokens.spacingHorizontalXS,
+    marginBottom: tokens.spacingVerticalXS,
+    marginTop: tokens.spacingVerticalXS,
+  },
+  row: {
+    display: "flex",
+    flexDirection: "row",
+    columnGap: tokens.spacingHorizontalS,
+  },
+  inputfield: {
+    width: "100px",
+  },
+  label: {
+    fontWeight: "bold",
+  },
+});
+
+/* Keys of the palette in the order shown */
+const PALETTE_KEYS: (keyof ChartPalette)[] = [
+  "points",
+  "identity",
+  "regression",
+  "loa",
+  "aps",
+  "ci",
+  "loaCi",
+  "flagged",
+];
+
+export default function ChartSettings(props: ChartSettingsProps) {
+  const styles = useStyles();
+  const [chartName, setChartName] = React.useState<ChartName>("blandAltman");
+
+  const style = props.chartOptions[chartName];
+
+  const setTitle = (title: string) => {
+    props.setChartOptions({ ...props.chartOptions, [chartName]: { ...style, title: title } });
+  };
+
+  const setAxis = (axisName: "xAxis" | "yAxis", axis: Partial<AxisOptions>) => {
+    props.setChartOptions({
+      ...props.chartOptions,
+      [chartName]: { ...style, [axisName]: { ...style[axisName], ...axis } },
+    });
+  };
+
+  // Blank bounds are set automatically by Excel
+  const parseBound = (value: string): number | null => {
+    const bound = parseFloat(value);
+    return Number.isFinite(bound) ? bound : null;
+  };
+
+  const setColor = (key: keyof ChartPalette, color: string) => {
+    props.setChartOptions({
+      ...props.chartOptions,
+      palette: { ...props.chartOptions.palette, [key]: color },
+    });
+  };
+
+  const saveOptions = () => {
+    const settings = Office.context.document.settings;
+    settings.set(CHART_OPTIONS_SETTING, JSON.stringify(props.chartOptions));
+    settings.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Failed) {
+        props.notify("error", result.error.message);
+      } else {
+        props.notify("success", props.uitext["msg_chart_options_saved"]);
+      }
+    });
+  };
+
+  const resetOptions = () => {
+    props.setChartOptions(defaultChartOptions());
+  };
+
+  const axisFields = (axisName: "xAxis" | "yAxis", label: string) => {
+    const axis = style[axisName];
+    return (
+      <div className={styles.field}>
+        <div className={styles.label}>{label}</div>
+        <Field label={props.uitext["lbl_axis_title"]}>
+          <Input
+            value={axis.title}
+            onChange={(ev) => setAxis(axisName, { title: ev.target.value })}
+          />
+        </Field>
+        <div className={styles.row}>
+          <Field label={props.uitext["lbl_axis_min"]}>
+            <Input
+              className={styles.inputfield}
+              type="number"
+              value={axis.min === null ? "" : String(axis.min)}
+              onChange={(ev) => setAxis(axisName, { min: parseBound(ev.target.value) })}
+            />
+          </Field>
+          <Field label={props.uitext["lbl_axis_max"]}>
+            <Input
+              className={styles.inputfield}
+              type="number"
+              value={axis.max === null ? "" : String(axis.max)}
+              onChange={(ev) => setAxis(axisName, { max: parseBound(ev.target.value) })}
+            />
+          </Field>
+        </div>
+        <Checkbox
+          label={props.uitext["lbl_axis_log"]}
+          checked={axis.log}
+          onChange={(_ev, data) => setAxis(axisName, { log: Boolean(data.checked) })}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="container">
+      <div>{props.uitext["inf_chart_options"]}</div>
+      <Field label={props.uitext["lbl_chart_units"]} className={styles.field}>
+        <Tooltip relationship="description" content={props.uitext["tip_chart_units"]}>
+          <Input
+            value={props.chartOptions.units}
+            onChange={(ev) =>
+              props.setChartOptions({ ...props.chartOptions, units: ev.target.value })
+            }
+          />
+        </Tooltip>
+      </Field>
+      <Field label={props.uitext["lbl_chart"]} className={styles.field}>
+        <Select value={chartName} onChange={(_ev, data) => setChartName(data.value as ChartName)}>
+          {CHART_NAMES.map((name) => (
+            <option key={name} value={name}>
+              {props.uitext[`opt_chart_${name}`]}
+            </option>
+          ))}
+        </Select>
+      </Field>
+      <Field label={props.uitext["lbl_chart_title"]} className={styles.field}>
+        <Tooltip relationship="description" content={props.uitext["tip_chart_title"]}>
+          <Input value={style.title} onChange={(ev) => setTitle(ev.target.value)} />
+        </Tooltip>
+      </Field>
+      {axisFields("xAxis", props.uitext["lbl_x_axis"])}
+      {axisFields("yAxis", props.uitext["lbl_y_axis"])}
+      <div className={styles.field}>
+        <div className={styles.label}>{props.uitext["lbl_chart_colours"]}</div>
+        {PALETTE_KEYS.map((key) => (
+          <Field key={key} label={props.uitext[`lbl_colour_${key}`]}>
+            <Tooltip relationship="description" content={props.uitext["tip_chart_colour"]}>
+              <Input
+                className={styles.inputfield}
+                value={props.chartOptions.palette[key]}
+                onChange={(ev) => setColor(key, ev.target.value)}
+              />
+            </Tooltip>
+          </Field>
+        ))}
+      </div>
+      <div className={`${styles.field} ${styles.row}`}>
+        <Button appearance="primary" onClick={saveOptions}>
+          {props.uitext["btn_save_chart_options"]}
+        </Button>
+        <Button onClick={resetOptions}>{props.uitext["btn_reset_chart_options"]}</Button>
+      </div>
+    </div>
+  );
+}
@@ -28,10 +28,19 @@ import {
   tokens
 } from "@fluentui/react-components";
 
+import { DEFAULT_ALPHA, DEFAULT_BOOTSTRAP_N } from "../../regression";
+import {
+  CHART_OPTIONS_SETTING,
+  ChartOptions,
+  defaultChartOptions,
+  parseChartOptions,
+} from "../../chartoptions";
+
 const PrecisionLayout = React.lazy(() => import("./PrecisionLayout"));
 const Qualitative = React.lazy(() => import("./Qualitative"));
 const Regression = React.lazy(() => import("./Regression"));
 const Precision = React.lazy(() => import("./Precision"));
+const ChartSettings = React.lazy(() => import("./ChartSettings"));
 
 // Properties for this component
 interface ComparisonProps {
@@ -75,9 +84,25 @@ export default function ComparisonPane(props: ComparisonProps) {
   const [useCalcErrorRatio, setUseCalcErrorRatio] = React.useState<boolean>(false); // Default to false
   const [importApsSettings, setImportApsSettings] = React.useState<boolean>(false); // Default to false
   const [labelOutput, setLabelOutput] = React.useState<boolean>(true); // Default to true
+  const [showCorrelation, setShowCorrelation] = React.useState<boolean>(false); // Default to false
   const [differencePlotType, setDifferencePlotType] = React.useState<string>("rel"); // Default to "rel"
   const [concordanceOutputRange, setConcordanceOutputRange] = React.useState<string>("");
   const [ciMethod, setCiMethod] = React.useState<string>("default"); // Default to "bootstrap"
+  const [alpha, setAlpha] = React.useState<string>(String(DEFAULT_ALPHA));
+  const [bootstrapN, setBootstrapN] = React.useState<string>(String(DEFAULT_BOOTSTRAP_N));
+  const [seed, setSeed] = React.useState<string>(""); // Blank for an unseeded generator
+  const [decisionLevels, setDecisionLevels] = React.useState<string>("");
+  const [baStatsOutputRange, setBaStatsOutputRange] = React.useState<string>(""); // Bland-Altman statistics output range
+  const [loaCiMethod, setLoaCiMethod] = React.useState<string>("exact"); // Default to "exact"
+  const [showBaCiBands, setShowBaCiBands] = React.useState<boolean>(false); // Default to false
+  const [showResiduals, setShowResiduals] = React.useState<boolean>(false); // Default to false
+  const [screenOutliers, setScreenOutliers] = React.useState<boolean>(false); // Default to false
+  const [excludeOutliers, setExcludeOutliers] = React.useState<boolean>(false); // Default to false
+  const [mpRangeValue, setMpRangeValue] = React.useState<string>(""); // Mountain plot output range
+  const [mountainOverlay, setMountainOverlay] = React.useState<string>(""); // Y ranges overlaid on the mountain plot
+  const [showRegCiBands, setShowRegCiBands] = React.useState<boolean>(false); // Default to false
+  const [deleteOrphanCharts, setDeleteOrphanCharts] = React.useState<boolean>(false); // Default to false
+  const [chartOptions, setChartOptions] = React.useState<ChartOptions>(defaultChartOptions()); // Saved in the workbook settings
   const [xThreshold0, setXThreshold0] = React.useState<string>("");
   const [xThreshold1, setXThreshold1] = React.useState<string>("");
   const [xThreshold2, setXThreshold2] = React.useState<string>("");
@@ -102,6 +127,14 @@ export default function ComparisonPane(props: ComparisonProps) {
 
   const regressionTypeId = useId("regression-type");
 
+  // Load the chart options saved in the workbook settings
+  React.useEffect(() => {
+    const saved = Office.context.document.settings.get(CHART_OPTIONS_SETTING);
+    if (saved !== null && saved !== undefined) {
+      setChartOptions(parseChartOptions(String(saved)));
+    }
+  }, []);
+
   /* Configure default values for the input fields */
   const setDefaultValues = () => {
     if (importLayoutChecked) {
@@ -120,8 +153,23 @@ export default function ComparisonPane(props: ComparisonProps) {
         setCompOutRangeValue("C167");
         setRegressionType("paba");
         setCiMethod("default");
+        setAlpha(String(DEFAULT_ALPHA));
+        setBootstrapN(String(DEFAULT_BOOTSTRAP_N));
+        setSeed("");
+        setDecisionLevels("");
+        setBaStatsOutputRange("");
+        setLoaCiMethod("exact");
+        setShowBaCiBands(false);
+        setShowResiduals(false);
+        setScreenOutliers(false);
+        setExcludeOutliers(false);
+        setMpRangeValue("");
+        setMountainOverlay("");
+        setShowRegCiBands(false);
+        setDeleteOrphanCharts(false);
         setUseCalcErrorRatio(false);
         setLabelOutput(true);
+        setShowCorrelation(false);
         setErrorRatio("1.0");
         setDifferencePlotType("rel");
         setBaRangeValue("N162:U175");
@@ -155,7 +203,7 @@ export default function ComparisonPane(props: ComparisonProps) {
       try {
         if (layoutSheet === "") throw new Error("Please specify the name of the layout sheet.");
         const worksheet = context.workbook.worksheets.getItem(layoutSheet);
-        const address = "A2:B23";
+        const address = "A2:B60";
         const range = worksheet.getRange(address);
         range.load(["values", "rowCount", "columnCount"]);
         await context.sync();
@@ -188,6 +236,48 @@ export default function ComparisonPane(props: ComparisonProps) {
             case "confidence-interval-method":
               setCiMethod(value);
               break;
+            case "alpha":
+              setAlpha(String(value));
+              break;
+            case "bootstrap-n":
+              setBootstrapN(String(value));
+              break;
+            case "seed":
+              setSeed(String(value));
+              break;
+            case "decision-levels":
+              setDecisionLevels(String(value));
+              break;
+            case "bland-altman-output":
+              setBaStatsOutputRange(value);
+              break;
+            case "loa-ci-method":
+              setLoaCiMethod(value);
+              break;
+            case "ba-ci-bands":
+              setShowBaCiBands(Boolean(value));
+              break;
+            case "residuals":
+              setShowResiduals(Boolean(value));
+              break;
+            case "outliers":
+              setScreenOutliers(Boolean(value));
+              break;
+            case "exclude-outliers":
+              setExcludeOutliers(Boolean(value));
+              break;
+            case "mountain-plot-range":
+              setMpRangeValue(value);
+              break;
+            case "mountain-overlay":
+              setMountainOverlay(String(value));
+              break;
+            case "regression-ci-bands":
+              setShowRegCiBands(Boolean(value));
+              break;
+            case "delete-orphan-charts":
+              setDeleteOrphanCharts(Boolean(value));
+              break;
             case "use-calculated-error-ratio":
               setUseCalcErrorRatio(Boolean(value));
               break;
@@ -203,6 +293,9 @@ export default function ComparisonPane(props: ComparisonProps) {
             case "output-labels":
               setLabelOutput(Boolean(value));
               break;
+            case "correlation":
+              setShowCorrelation(Boolean(value));
+              break;
             case "chart-data-range":
               setCdRangeValue(value);
               break;
@@ -275,12 +368,43 @@ export default function ComparisonPane(props: ComparisonProps) {
                 setUseCalcErrorRatio={setUseCalcErrorRatio}
                 labelOutput={labelOutput}
                 setLabelOutput={setLabelOutput}
+                showCorrelation={showCorrelation}
+                setShowCorrelation={setShowCorrelation}
                 differencePlotType={differencePlotType}
                 setDifferencePlotType={setDifferencePlotType}
                 concordanceOutputRange={concordanceOutputRange}
                 setConcordanceOutputRange={setConcordanceOutputRange}
                 ciMethod={ciMethod}
                 setCiMethod={setCiMethod}
+                alpha={alpha}
+                setAlpha={setAlpha}
+                bootstrapN={bootstrapN}
+                setBootstrapN={setBootstrapN}
+                seed={seed}
+                setSeed={setSeed}
+                decisionLevels={decisionLevels}
+                setDecisionLevels={setDecisionLevels}
+                baStatsOutputRange={baStatsOutputRange}
+                setBaStatsOutputRange={setBaStatsOutputRange}
+                loaCiMethod={loaCiMethod}
+                setLoaCiMethod={setLoaCiMethod}
+                showBaCiBands={showBaCiBands}
+                setShowBaCiBands={setShowBaCiBands}
+                showResiduals={showResiduals}
+                setShowResiduals={setShowResiduals}
+                screenOutliers={screenOutliers}
+                setScreenOutliers={setScreenOutliers}
+                excludeOutliers={excludeOutliers}
+                setExcludeOutliers={setExcludeOutliers}
+                mpRangeValue={mpRangeValue}
+                setMpRangeValue={setMpRangeValue}
+                mountainOverlay={mountainOverlay}
+                setMountainOverlay={setMountainOverlay}
+                showRegCiBands={showRegCiBands}
+                setShowRegCiBands={setShowRegCiBands}
+                deleteOrphanCharts={deleteOrphanCharts}
+                setDeleteOrphanCharts={setDeleteOrphanCharts}
+                chartOptions={chartOptions}
                 xThreshold0={xThreshold0}
                 setXThreshold0={setXThreshold0}
                 xThreshold1={xThreshold1}
@@ -304,6 +428,21 @@ export default function ComparisonPane(props: ComparisonProps) {
           </Card>
         </AccordionPanel>
       </AccordionItem>
+      <AccordionItem value="3">
+        <AccordionHeader>{props.uitext["h_chart_options"]}</AccordionHeader>
+        <AccordionPanel>
+          <Card>
+            <React.Suspense fallback={<div>Loading...</div>}>
+              <ChartSettings
+                chartOptions={chartOptions}
+                setChartOptions={setChartOptions}
+                notify={props.notify}
+                uitext={props.uitext}
+              />
+            </React.Suspense>
+          </Card>
+        </AccordionPanel>
+      </AccordionItem>
       <AccordionItem value="4">
         <AccordionHeader>{props.uitext["h_precision"]}</AccordionHeader>
         <AccordionPanel>
@@ -423,11 +562,67 @@ export default function ComparisonPane(props: ComparisonProps) {
                       </tr>
                       <tr>
                         <td>regression-method</td>
-                        <td>paba, deming, or wdeming</td>
+                        <td>paba, deming, wdeming, ols, or wols</td>
                       </tr>
                       <tr>
                         <td>confidence-interval-method</td>
-                        <td>default or bootstrap</td>
+                        <td>default, analytic, bootstrap, bca or tboot</td>
+                      </tr>
+                      <tr>
+                        <td>alpha</td>
+                        <td>0.05</td>
+                      </tr>
+                      <tr>
+                        <td>bootstrap-n</td>
+                        <td>10000</td>
+                      </tr>
+                      <tr>
+                        <td>seed</td>
+                        <td>Blank or an integer</td>
+                      </tr>
+                      <tr>
+                        <td>decision-levels</td>
+                        <td>D1:D3 or 100, 200</td>
+                      </tr>
+                      <tr>
+                        <td>bland-altman-output</td>
+                        <td>Blank or a cell reference</td>
+                      </tr>
+                      <tr>
+                        <td>loa-ci-method</td>
+                        <td>exact or approx</td>
+                      </tr>
+                      <tr>
+                        <td>ba-ci-bands</td>
+                        <td>FALSE</td>
+                      </tr>
+                      <tr>
+                        <td>residuals</td>
+                        <td>FALSE</td>
+                      </tr>
+                      <tr>
+                        <td>outliers</td>
+                        <td>FALSE</td>
+                      </tr>
+                      <tr>
+                        <td>exclude-outliers</td>
+                        <td>FALSE</td>
+                      </tr>
+                      <tr>
+                        <td>mountain-plot-range</td>
+                        <td>Blank or a cell range</td>
+                      </tr>
+                      <tr>
+                        <td>mountain-overlay</td>
+                        <td>Blank or ranges separated by commas</td>
+                      </tr>
+                      <tr>
+                        <td>regression-ci-bands</td>
+                        <td>FALSE</td>
+                      </tr>
+                      <tr>
+                        <td>delete-orphan-charts</td>
+                        <td>FALSE</td>
                       </tr>
                       <tr>
                         <td>use-calculated-error-ratio</td>
@@ -449,6 +644,10 @@ export default function ComparisonPane(props: ComparisonProps) {
                         <td>output-labels</td>
                         <td>TRUE</td>
                       </tr>
+                      <tr>
+                        <td>correlation</td>
+                        <td>FALSE</td>
+                      </tr>
                       <tr>
                         <td>chart-data-range</td>
                         <td>AP61</td>
@@ -8,13 +8,29 @@ import * as React from "react";
 import { makeStyles, Button, Input, Select, Tooltip, tokens } from "@fluentui/react-components";
 
 import {
-  ref_limit,
   ROBUST,
+  PARAMETRIC,
+  BOXCOX,
+  boxCox,
   adjusted_fisher_pearson_coefficient,
   is_consistent_with_normal,
+  ReferenceInterval,
 } from "../../reference_intervals";
+import { DIXON_REED, TUKEY, TUKEY_BOXCOX, excludeOutliers } from "../../reference_outliers";
+import { NO_PARTITION, PartitionAnalysis, Subgroup, partitionAnalysis } from "../../partitioning";
+import { PASS, verifyTransference } from "../../transference";
+import { INDIRECT, IndirectReferenceInterval, KS_CRITICAL } from "../../indirect";
+
+import { parseSeed } from "../../random";
+import { runInWorker } from "../../worker/client";
 
 import RangeInput from "./RangeInput";
+import CalculationProgress from "./CalculationProgress";
+
+const OUTLIER_FILL = "#FFC7CE"; // Highlight for excluded values
+const NO_OUTLIERS = "none";
+const ESTABLISH = "establish"; // Establish a reference interval
+const VERIFY = "verify"; // Verify a transferred reference interval
 
 // Properties for this component
 interface RefIntProps {
@@ -48,20 +64,115 @@ export default function RefInt(props: RefIntProps) {
   const styles = useStyles();
 
   const [riInputRangeValue, setRiInputRangeValue] = React.useState<string>(""); //Reference Interval Input Data
+  const [riPartitionRangeValue, setRiPartitionRangeValue] = React.useState<string>(""); //Optional subgroup of each value, e.g. sex
   const [riOutputRangeValue, setRiOutputRangeValue] = React.useState<string>(""); //Reference Interval Output Range - Top Left Cell
+  const [riModeValue, setRiModeValue] = React.useState<string>(ESTABLISH);
+  const [claimedLowerValue, setClaimedLowerValue] = React.useState<string>(""); //Reference limits being verified
+  const [claimedUpperValue, setClaimedUpperValue] = React.useState<string>("");
   const [riMethodValue, setRiMethodValue] = React.useState<string>(ROBUST);
   const [alphaValue, setAlphaValue] = React.useState<string>("0.05");
   const [confAlphaValue, setConfAlphaValue] = React.useState<string>("0.10");
+  const [outlierMethodValue, setOutlierMethodValue] = React.useState<string>(NO_OUTLIERS);
+  const [seedValue, setSeedValue] = React.useState<string>(""); //Blank for a random seed
+  const [progress, setProgress] = React.useState<number | undefined>(undefined); //Undefined unless running
+  const cancelCalculation = React.useRef<() => void>(() => {});
 
+  const selectRiMode = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setRiModeValue(event.target.value);
+  };
+  const handleClaimedLowerChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setClaimedLowerValue(event.target.value);
+  };
+  const handleClaimedUpperChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setClaimedUpperValue(event.target.value);
+  };
   const selectRiMethod = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setRiMethodValue(event.target.value);
   };
+  const selectOutlierMethod = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setOutlierMethodValue(event.target.value);
+  };
   const handleAlphaChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setAlphaValue(event.target.value);
   };
   const handleConfAlphaChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setConfAlphaValue(event.target.value);
   };
+  const handleSeedChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSeedValue(event.target.value);
+  };
+
+  // Warn if the data are too skewed for the selected method
+  const checkSkewness = (data: number[], label: string) => {
+    if (riMethodValue === "robust") {
+      const g1 = adjusted_fisher_pearson_coefficient(data);
+      if (!is_consistent_with_normal(data.length, g1, 0.1)) {
+        props.notify(
+          "warning",
+          `${label}The robust method should only be used for a symmetric population. The adjusted Fisher-Pearson coefficient is ${g1} indicating the data is skewed.`
+        );
+      }
+    } else if (riMethodValue === PARAMETRIC) {
+      const g1 = adjusted_fisher_pearson_coefficient(data);
+      if (!is_consistent_with_normal(data.length, g1, 0.1)) {
+        props.notify(
+          "warning",
+          `${label}The parametric method assumes a normal population. The adjusted Fisher-Pearson coefficient is ${g1} indicating the data is skewed. Consider the Box-Cox parametric method.`
+        );
+      }
+    }
+  };
+
+  // Table of the partitioning tests, five columns wide
+  const partitionTable = (analysis: PartitionAnalysis): any[][] => {
+    const decision = (value: string) => props.uitext[`opt_decision_${value}`];
+    const table: any[][] = [["Subgroup", "n", "Mean", "SD", ""]];
+    for (const group of analysis.subgroups) {
+      table.push([group.name, group.n, group.mean, group.sd, ""]);
+    }
+    table.push(["Harris-Boyd", "z", "z*", "SD Ratio", "Decision"]);
+    for (const result of analysis.harrisBoyd) {
+      table.push([
+        `${result.groups[0]} vs ${result.groups[1]}`,
+        result.z,
+        result.zCritical,
+        result.sdRatio,
+        decision(result.decision),
+      ]);
+    }
+    table.push(["Lahti", "n", "Below LRL", "Above URL", "Decision"]);
+    for (const result of analysis.lahti) {
+      table.push([
+        result.group,
+        result.n,
+        result.belowLower,
+        result.aboveUpper,
+        decision(result.decision),
+      ]);
+    }
+    table.push(["Combined Limits", analysis.lowerLimit, analysis.upperLimit, "", ""]);
+    table.push(["Recommendation", decision(analysis.recommendation), "", "", ""]);
+    return table;
+  };
+
+  // Results of the indirect method, three columns wide
+  const indirectRows = (ri: IndirectReferenceInterval, label: string): any[][] => {
+    if (ri.cost > KS_CRITICAL) {
+      props.notify(
+        "warning",
+        `${label}No truncation interval gave an acceptable fit. The indirect reference limits may be unreliable.`
+      );
+    }
+    return [
+      ["Ref Limit", "", ""],
+      [ri.lowerLimit, "", ""],
+      [ri.upperLimit, "", ""],
+      ["Lambda", ri.lambda, ""],
+      ["Truncation", ri.truncation[0], ri.truncation[1]],
+      ["Non-pathological", ri.fraction, ""],
+      ["KS Distance", ri.cost, ""],
+    ];
+  };
 
   const calcReferenceInterval = async () => {
     await Excel.run(async (context) => {
@@ -78,59 +189,244 @@ export default function RefInt(props: RefIntProps) {
         const inputRange = currentWorksheet.getRange(riInputRangeValue);
         const outputRange = currentWorksheet.getRange(riOutputRangeValue);
         inputRange.load(["rowCount", "columnCount", "values"]);
+        inputRange.format.fill.clear(); // Remove the highlights of a previous run
+        let partitionRange: Excel.Range | undefined = undefined;
+        if (riPartitionRangeValue !== "") {
+          partitionRange = currentWorksheet.getRange(riPartitionRangeValue);
+          partitionRange.load(["rowCount", "values"]);
+        }
         await context.sync();
 
+        if (partitionRange !== undefined && partitionRange.rowCount !== inputRange.rowCount) {
+          throw new RangeError("The input and partition ranges must have the same number of rows.");
+        }
         if (inputRange.rowCount < 120 && riMethodValue === "np") {
           props.notify(
             "warning",
             "This is a small data set. Recommended minimum data set size for the non-parametric method is 120 subjects."
           );
         }
-        let data: number[] = [];
+        // Group the values by the partition column. Values without a
+        // partition are ignored. Without a partition column there is one group.
+        const groups = new Map<string, { data: number[]; rows: number[] }>();
         for (let i = 0; i < inputRange.rowCount; i++) {
           if (inputRange.values[i][0] !== null && inputRange.values[i][0] !== "") {
             if (typeof inputRange.values[i][0] === "number") {
-              data.push(inputRange.values[i][0]);
+              let name = "";
+              if (partitionRange !== undefined) {
+                const label = partitionRange.values[i][0];
+                if (label === null || label === "") continue;
+                name = String(label);
+              }
+              if (!groups.has(name)) groups.set(name, { data: [], rows: [] });
+              groups.get(name)?.data.push(inputRange.values[i][0]);
+              groups.get(name)?.rows.push(i); // Row of the value in the input range
             }
           }
         }
+        const partitioned = partitionRange !== undefined;
 
-        //if robust algorith is selected, check the data for skewness and display warning
-        //if data is significantly skewed.
-        if (riMethodValue === "robust") {
-          const g1 = adjusted_fisher_pearson_coefficient(data);
-          if (!is_consistent_with_normal(data.length, g1, 0.1)) {
+        // Exclude outliers from each group before the limits are calculated.
+        // Excluded values are highlighted in the input range and listed in the output.
+        const excludedCells: Excel.Range[] = [];
+        const excludedValues: number[] = [];
+        const subgroups: Subgroup[] = [];
+        for (const [name, group] of groups) {
+          let data = group.data;
+          if (outlierMethodValue !== NO_OUTLIERS) {
+            const exclusion = excludeOutliers(data, outlierMethodValue);
+            for (const outlier of exclusion.excluded) {
+              const cell = inputRange.getCell(group.rows[outlier.index], 0);
+              cell.format.fill.color = OUTLIER_FILL;
+              cell.load("address");
+              excludedCells.push(cell);
+              excludedValues.push(outlier.value);
+            }
+            data = exclusion.retained;
+          }
+          subgroups.push({ name: name, data: data });
+        }
+        if (outlierMethodValue !== NO_OUTLIERS) {
+          await context.sync();
+          if (excludedValues.length > 0) {
             props.notify(
               "warning",
-              `The robust method should only be used for a symmetric population. The adjusted Fisher-Pearson coefficient is ${g1} indicating the data is skewed.`
+              `${excludedValues.length} outlier(s) have been excluded from the reference interval data.`
+            );
+          }
+        }
+
+        // Test whether the subgroups need separate reference intervals
+        let analysis: PartitionAnalysis | undefined = undefined;
+        if (partitioned) {
+          analysis = partitionAnalysis(subgroups);
+          props.notify(
+            analysis.recommendation === NO_PARTITION ? "info" : "warning",
+            props.uitext[`msg_partition_${analysis.recommendation}`]
+          );
+        }
+
+        //check each group for skewness and display a warning if the data are
+        //significantly skewed for the selected method.
+        for (const subgroup of subgroups) {
+          checkSkewness(subgroup.data, partitioned ? `${subgroup.name}: ` : "");
+        }
+
+        // Calculate the limits of each subgroup in turn
+        const seed = parseSeed(seedValue);
+        const reflimitsList: ReferenceInterval[] = [];
+        const indirectList: IndirectReferenceInterval[] = [];
+        setProgress(0);
+        try {
+          for (let g = 0; g < subgroups.length; g++) {
+            if (riMethodValue === INDIRECT) {
+              const indirect = runInWorker(
+                { type: "indirect", data: subgroups[g].data, alpha: parseFloat(alphaValue) },
+                (completed, total) => setProgress((g + completed / total) / subgroups.length)
+              );
+              cancelCalculation.current = indirect.cancel;
+              indirectList.push(await indirect.result);
+              continue;
+            }
+            const calculation = runInWorker(
+              {
+                type: "reflimit",
+                data: subgroups[g].data,
+                alpha: parseFloat(alphaValue),
+                confAlpha: parseFloat(confAlphaValue),
+                method: riMethodValue,
+                bootstrapN: 5000,
+                seed: seed,
+              },
+              (completed, total) => setProgress((g + completed / total) / subgroups.length)
             );
+            cancelCalculation.current = calculation.cancel;
+            reflimitsList.push(await calculation.result);
           }
+        } finally {
+          setProgress(undefined);
+        }
+        const results: any[][] = [];
+        subgroups.forEach((subgroup, g) => {
+          if (partitioned) {
+            results.push([subgroup.name, "n", subgroup.data.length]);
+          }
+          if (riMethodValue === INDIRECT) {
+            results.push(...indirectRows(indirectList[g], partitioned ? `${subgroup.name}: ` : ""));
+            return;
+          }
+          const reflimits = reflimitsList[g];
+          const lowerLimit: number[] = [
+            reflimits.lowerLimit,
+            reflimits.lowerLimitCI[0],
+            reflimits.lowerLimitCI[1],
+          ];
+          const upperLimit: number[] = [
+            reflimits.upperLimit,
+            reflimits.upperLimitCI[0],
+            reflimits.upperLimitCI[1],
+          ];
+          results.push(["Ref Limit", "LCL", "UCL"]);
+          results.push(lowerLimit);
+          results.push(upperLimit);
+          if (reflimits.lambda !== undefined) {
+            // Limits were back-transformed from the Box-Cox transformed data
+            const lambda = reflimits.lambda;
+            results.push(["Lambda", lambda, ""]);
+            const transformed = subgroup.data.map((x) => boxCox(x, lambda));
+            const g1 = adjusted_fisher_pearson_coefficient(transformed);
+            if (!is_consistent_with_normal(transformed.length, g1, 0.1)) {
+              props.notify(
+                "warning",
+                `${partitioned ? `${subgroup.name}: ` : ""}The transformed data are still skewed. The adjusted Fisher-Pearson coefficient is ${g1}. Consider the non-parametric method.`
+              );
+            }
+          }
+        });
+        if (riMethodValue === ROBUST) {
+          // The robust method uses bootstrap confidence limits
+          results.push(["Seed", seed, ""]);
+        }
+        if (outlierMethodValue !== NO_OUTLIERS) {
+          results.push(["Excluded", excludedValues.length, ""]);
+          excludedValues.forEach((value, i) => {
+            results.push(["", value, excludedCells[i].address]);
+          });
+        }
+        const range = outputRange.getAbsoluteResizedRange(results.length, 3);
+        range.values = results;
+        if (analysis !== undefined) {
+          // The partitioning tests are written below the limits
+          const table = partitionTable(analysis);
+          const tableRange = outputRange
+            .getOffsetRange(results.length + 1, 0)
+            .getAbsoluteResizedRange(table.length, 5);
+          tableRange.values = table;
+        }
+
+        await context.sync();
+      } catch (err) {
+        if (err instanceof Error) {
+          props.notify(err.name === "AbortError" ? "info" : "error", err.message);
         }
+      } // try
+    });
+  };
+
+  // Verify the claimed reference limits with the local results (CLSI EP28)
+  const verifyReferenceInterval = async () => {
+    await Excel.run(async (context) => {
+      try {
+        const currentWorksheet = context.workbook.worksheets.getActiveWorksheet();
+
+        if (riInputRangeValue === "") {
+          throw Error("Please select the input range.");
+        }
+        if (riOutputRangeValue === "") {
+          throw Error("Please select the top left cell for the output range.");
+        }
+        const lowerLimit = parseFloat(claimedLowerValue);
+        const upperLimit = parseFloat(claimedUpperValue);
+        if (!Number.isFinite(lowerLimit) || !Number.isFinite(upperLimit)) {
+          throw Error("Please enter the lower and upper reference limits to be verified.");
+        }
+        const inputRange = currentWorksheet.getRange(riInputRangeValue);
+        const outputRange = currentWorksheet.getRange(riOutputRangeValue);
+        inputRange.load(["rowCount", "values"]);
+        inputRange.format.fill.clear(); // Remove the highlights of a previous run
+        await context.sync();
 
-        const reflimits = ref_limit(
+        const data: number[] = [];
+        for (let i = 0; i < inputRange.rowCount; i++) {
+          const value = inputRange.values[i][0];
+          if (typeof value === "number") {
+            data.push(value);
+            if (value < lowerLimit || value > upperLimit) {
+              // Highlight results outside the limits
+              inputRange.getCell(i, 0).format.fill.color = OUTLIER_FILL;
+            }
+          }
+        }
+        const verification = verifyTransference(
           data,
-          parseFloat(alphaValue),
-          parseFloat(confAlphaValue),
-          riMethodValue
+          lowerLimit,
+          upperLimit,
+          parseFloat(alphaValue)
         );
-        const results: any[][] = [];
-        const lowerLimit: number[] = [
-          reflimits.lowerLimit,
-          reflimits.lowerLimitCI[0],
-          reflimits.lowerLimitCI[1],
+        const decision = props.uitext[`opt_verify_${verification.decision}`];
+        const results: any[][] = [
+          ["Verification", "", ""],
+          ["n", verification.n, ""],
+          ["Below LRL", verification.belowLower, ""],
+          ["Above URL", verification.aboveUpper, ""],
+          ["Outside", verification.outside, `Max ${verification.maxOutside}`],
+          ["Probability", verification.probability, ""],
+          ["Result", decision, ""],
         ];
-        const upperLimit: number[] = [
-          reflimits.upperLimit,
-          reflimits.upperLimitCI[0],
-          reflimits.upperLimitCI[1],
-        ];
-        results.push(["Ref Limit", "LCL", "UCL"]);
-        results.push(lowerLimit);
-        results.push(upperLimit);
         const range = outputRange.getAbsoluteResizedRange(results.length, 3);
         range.values = results;
-
         await context.sync();
+        props.notify(verification.decision === PASS ? "success" : "warning", decision);
       } catch (err) {
         if (err instanceof Error) {
           props.notify("error", err.message);
@@ -138,6 +434,7 @@ export default function RefInt(props: RefIntProps) {
       } // try
     });
   };
+
   return (
     <div className="container">
       <div>
@@ -154,17 +451,83 @@ export default function RefInt(props: RefIntProps) {
         />
       </div>
       <div className={styles.field}>
-        <label htmlFor="ri-method">{props.uitext["lbl_ri_method"]}</label>
+        <label htmlFor="ri-mode">{props.uitext["lbl_ri_mode"]}</label>
         <Select
-          value={riMethodValue}
-          id="ri-method"
+          value={riModeValue}
+          id="ri-mode"
           className={styles.selection}
-          onChange={selectRiMethod}
+          onChange={selectRiMode}
         >
-          <option value="robust">{props.uitext["opt_robust"]}</option>
-          <option value="np">{props.uitext["opt_np"]}</option>
+          <option value={ESTABLISH}>{props.uitext["opt_establish"]}</option>
+          <option value={VERIFY}>{props.uitext["opt_verify"]}</option>
         </Select>
       </div>
+      {riModeValue === VERIFY && (
+        <div className={styles.field}>
+          <label htmlFor="claimed-lower">{props.uitext["lbl_claimed_limits"]}</label>
+          <Tooltip content={props.uitext["tip_claimed_limits"]} relationship="description">
+            <Input
+              type="number"
+              value={claimedLowerValue}
+              id="claimed-lower"
+              className={styles.inputfield}
+              onChange={handleClaimedLowerChange}
+            />
+          </Tooltip>
+          <Input
+            type="number"
+            value={claimedUpperValue}
+            id="claimed-upper"
+            className={styles.inputfield}
+            onChange={handleClaimedUpperChange}
+          />
+        </div>
+      )}
+      {riModeValue === ESTABLISH && (
+        <>
+          <div>
+            <RangeInput
+              label={props.uitext["lbl_partition_range"]}
+              rangeValue={riPartitionRangeValue}
+              setRangeValue={setRiPartitionRangeValue}
+              validationMessage={props.uitext["msg_partition_range"]}
+              tooltipContent={props.uitext["tip_partition_range"]}
+              uitext={props.uitext}
+            />
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="ri-method">{props.uitext["lbl_ri_method"]}</label>
+            <Select
+              value={riMethodValue}
+              id="ri-method"
+              className={styles.selection}
+              onChange={selectRiMethod}
+            >
+              <option value="robust">{props.uitext["opt_robust"]}</option>
+              <option value="np">{props.uitext["opt_np"]}</option>
+              <option value={PARAMETRIC}>{props.uitext["opt_parametric"]}</option>
+              <option value={BOXCOX}>{props.uitext["opt_boxcox_parametric"]}</option>
+              <option value={INDIRECT}>{props.uitext["opt_indirect"]}</option>
+            </Select>
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="ri-outliers">{props.uitext["lbl_ri_outliers"]}</label>
+            <Tooltip content={props.uitext["tip_ri_outliers"]} relationship="description">
+              <Select
+                value={outlierMethodValue}
+                id="ri-outliers"
+                className={styles.selection}
+                onChange={selectOutlierMethod}
+              >
+                <option value={NO_OUTLIERS}>{props.uitext["opt_outliers_none"]}</option>
+                <option value={DIXON_REED}>{props.uitext["opt_dixon_reed"]}</option>
+                <option value={TUKEY}>{props.uitext["opt_tukey"]}</option>
+                <option value={TUKEY_BOXCOX}>{props.uitext["opt_tukey_boxcox"]}</option>
+              </Select>
+            </Tooltip>
+          </div>
+        </>
+      )}
       <div className={styles.field}>
         <label htmlFor="alpha">{props.uitext["lbl_ri_alpha"]}</label>
         <Tooltip content={props.uitext["tip_ri_alpha"]} relationship="label">
@@ -177,18 +540,34 @@ export default function RefInt(props: RefIntProps) {
           />
         </Tooltip>
       </div>
-      <div className={styles.field}>
-        <label htmlFor="conf-alpha">{props.uitext["lbl_ci_alpha"]}</label>
-        <Tooltip content={props.uitext["tip_ci_alpha"]} relationship="label">
-          <Input
-            type="number"
-            value={confAlphaValue}
-            id="conf-alpha"
-            className={styles.inputfield}
-            onChange={handleConfAlphaChange}
-          />
-        </Tooltip>
-      </div>
+      {riModeValue === ESTABLISH && riMethodValue !== INDIRECT && (
+        <div className={styles.field}>
+          <label htmlFor="conf-alpha">{props.uitext["lbl_ci_alpha"]}</label>
+          <Tooltip content={props.uitext["tip_ci_alpha"]} relationship="label">
+            <Input
+              type="number"
+              value={confAlphaValue}
+              id="conf-alpha"
+              className={styles.inputfield}
+              onChange={handleConfAlphaChange}
+            />
+          </Tooltip>
+        </div>
+      )}
+      {riModeValue === ESTABLISH && riMethodValue === ROBUST && (
+        <div className={styles.field}>
+          <label htmlFor="ri-seed">{props.uitext["lbl_seed"]}</label>
+          <Tooltip content={props.uitext["tip_seed"]} relationship="label">
+            <Input
+              type="number"
+              value={seedValue}
+              id="ri-seed"
+              className={styles.inputfield}
+              onChange={handleSeedChange}
+            />
+          </Tooltip>
+        </div>
+      )}
       <div>
         <RangeInput
           label={props.uitext["lbl_output_range"]}
@@ -200,10 +579,19 @@ export default function RefInt(props: RefIntProps) {
       </div>
 
       <div className={styles.field}>
-        <Button appearance="primary" onClick={calcReferenceInterval}>
+        <Button
+          appearance="primary"
+          onClick={riModeValue === VERIFY ? verifyReferenceInterval : calcReferenceInterval}
+          disabled={progress !== undefined}
+        >
           {props.uitext["btn_run"]}
         </Button>
       </div>
+      <CalculationProgress
+        progress={progress}
+        onCancel={() => cancelCalculation.current()}
+        uitext={props.uitext}
+      />
     </div>
   );
 }
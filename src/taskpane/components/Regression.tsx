@@ -2,7 +2,7 @@
  * Regression.tsx
  * Regression analysis component for the task pane.
  * This component allows users to perform regression analysis on their data
- * using Deming, Weighted Deming, and Passing-Bablok methods.
+ * using Deming, Weighted Deming, Passing-Bablok and least squares methods.
  * 
  * @author Douglas Chesher
  */
@@ -20,22 +20,49 @@ import {
   Checkbox,
   Field,
   Input,
+  Tooltip,
   tokens,
 } from "@fluentui/react-components";
 
 import RangeInput from "./RangeInput";
 import ConcordanceThreshold from "./ConcordanceThreshold";
+import CalculationProgress from "./CalculationProgress";
 
 import {
-  JackknifeConfidenceInterval,
-  BootstrapConfidenceInterval,
-  PassingBablokRegression,
-  DemingRegression,
-  WeightedDemingRegression,
+  ConfidenceBand,
+  ConfidenceIntervalModel,
+  REG_METHOD,
+  BOOTSTRAP_METHODS,
   DEFAULT_ERROR_RATIO,
+  DEFAULT_ITER_MAX,
+  DEFAULT_THRESHOLD,
+  analyticConfidenceBand,
 } from "../../regression";
 
-import { ExcelBlandAltmanChart, ExcelRegressionChart } from "../../charts";
+import { parseSeed } from "../../random";
+import { runInWorker } from "../../worker/client";
+
+import {
+  ExcelBlandAltmanChart,
+  ExcelMountainPlotChart,
+  ExcelRegressionChart,
+  ExcelResidualChart,
+  MountainComparison,
+  deleteOrphanCharts,
+} from "../../charts";
+import { regressionResiduals } from "../../residuals";
+import { EsdOutlier, pairedOutliers } from "../../outliers";
+import { errorRatio, repeatability, replicateBlandAltman } from "../../replicates";
+import { RANGE_ADEQUACY_R, kendall, pearson, spearman } from "../../correlation";
+import { ChartOptions } from "../../chartoptions";
+
+import { decisionLevelBias } from "../../bias";
+
+import {
+  BlandAltmanStatistics,
+  blandAltmanStatistics,
+  regressionBlandAltman,
+} from "../../blandaltman";
 
 import {
   ContingencyTableBuilder,
@@ -71,12 +98,43 @@ interface RegressionProps {
   setImportApsSettings: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
   labelOutput: boolean;
   setLabelOutput: React.Dispatch<React.SetStateAction<boolean>>; // Default to true
+  showCorrelation: boolean;
+  setShowCorrelation: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
   differencePlotType: string;
   setDifferencePlotType: React.Dispatch<React.SetStateAction<string>>; // Default to "rel"
   concordanceOutputRange: string;
   setConcordanceOutputRange: React.Dispatch<React.SetStateAction<string>>;
   ciMethod: string;
   setCiMethod: React.Dispatch<React.SetStateAction<string>>; // Default to "bootstrap"
+  alpha: string;
+  setAlpha: React.Dispatch<React.SetStateAction<string>>; // Default to "0.05"
+  bootstrapN: string;
+  setBootstrapN: React.Dispatch<React.SetStateAction<string>>; // Default to DEFAULT_BOOTSTRAP_N
+  seed: string;
+  setSeed: React.Dispatch<React.SetStateAction<string>>; // Blank for an unseeded generator
+  decisionLevels: string;
+  setDecisionLevels: React.Dispatch<React.SetStateAction<string>>;
+  baStatsOutputRange: string;
+  setBaStatsOutputRange: React.Dispatch<React.SetStateAction<string>>; // Bland-Altman statistics output range
+  loaCiMethod: string;
+  setLoaCiMethod: React.Dispatch<React.SetStateAction<string>>; // Default to "exact"
+  showBaCiBands: boolean;
+  setShowBaCiBands: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  showResiduals: boolean;
+  setShowResiduals: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  screenOutliers: boolean;
+  setScreenOutliers: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  excludeOutliers: boolean;
+  setExcludeOutliers: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  mpRangeValue: string;
+  setMpRangeValue: React.Dispatch<React.SetStateAction<string>>; // Mountain plot output range
+  mountainOverlay: string;
+  setMountainOverlay: React.Dispatch<React.SetStateAction<string>>; // Y ranges overlaid on the mountain plot
+  showRegCiBands: boolean;
+  setShowRegCiBands: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  deleteOrphanCharts: boolean;
+  setDeleteOrphanCharts: React.Dispatch<React.SetStateAction<boolean>>; // Default to false
+  chartOptions: ChartOptions; // Titles, axes and colours of the charts
   xThreshold0: string;
   setXThreshold0: React.Dispatch<React.SetStateAction<string>>;
   xThreshold1: string;
@@ -126,6 +184,9 @@ const useStyles = makeStyles({
   selection: {
     maxWidth: "220px",
   },
+  inputfield: {
+    width: "100px",
+  },
   label: {
     fontWeight: "bold",
   },
@@ -140,6 +201,7 @@ const useStyles = makeStyles({
  */
 interface InputData {
   means: number[];
+  rows: number[]; // Row of each value within the range
   x1: number[];
   x2: number[];
   devsq: number[];
@@ -155,6 +217,7 @@ interface InputData {
  */
 function processRangeData(range: Excel.Range): InputData {
   let means: number[] = [];
+  let rows: number[] = [];
   let size = 0;
 
   // Validate the range data
@@ -189,6 +252,7 @@ function processRangeData(range: Excel.Range): InputData {
         );
         // Calculate means for each pair
         means.push((range.values[i][0] + range.values[i][1]) / 2);
+        rows.push(i);
         size++;
       }
     }
@@ -202,90 +266,58 @@ function processRangeData(range: Excel.Range): InputData {
       if (typeof range.values[i][0] === "number") {
         x1.push(range.values[i][0]);
         means.push(range.values[i][0]);
+        rows.push(i);
         size++;
       }
     }
     mean = means.reduce((a, b) => a + b, 0) / size;
   }
-  return { means: means, x1: x1, x2: x2, devsq: devsq, sd: sd, cv: cv, size: size, mean: mean };
-}
-
-interface RegressionResults {
-  slope: number;
-  intercept: number;
-  slopeLCL: number;
-  slopeUCL: number;
-  interceptLCL: number;
-  interceptUCL: number;
-  slopeSE: number;
-  interceptSE: number;
+  return {
+    means: means,
+    rows: rows,
+    x1: x1,
+    x2: x2,
+    devsq: devsq,
+    sd: sd,
+    cv: cv,
+    size: size,
+    mean: mean,
+  };
 }
 
-/* Main function to perform regression analysis on the supplied data
+/* Map the regression type values used by the task pane and layout sheet
+ * to the methods of MethodCompRegression.
  */
-function doRegression(
-  x: number[],
-  y: number[],
-  regressionMethod: string,
-  ciMethod: string,
-  errorRatio: number = DEFAULT_ERROR_RATIO
-): RegressionResults {
-  //console.log(`Error ratio is ${errorRatio}`);
-  let res: RegressionResults = {
-    slope: NaN,
-    intercept: NaN,
-    slopeSE: NaN,
-    interceptSE: NaN,
-    slopeLCL: NaN,
-    slopeUCL: NaN,
-    interceptLCL: NaN,
-    interceptUCL: NaN,
-  };
-  if (regressionMethod === "paba") {
-    let regression = new PassingBablokRegression();
-    if (ciMethod === "bootstrap") {
-      let regCI = new BootstrapConfidenceInterval(x, y, regression, 1000);
-      res = regCI.calculate();
-    } else {
-      let reg = regression.calculate(x, y);
-      res.slope = reg.slope;
-      res.intercept = reg.intercept;
-      res.slopeLCL = reg.slopeLCL;
-      res.slopeUCL = reg.slopeUCL;
-      res.interceptLCL = reg.interceptLCL;
-      res.interceptUCL = reg.interceptUCL;
-    }
-  } else if (regressionMethod === "deming") {
-    let regression = new DemingRegression(errorRatio);
-    if (ciMethod === "bootstrap") {
-      let regCI = new BootstrapConfidenceInterval(x, y, regression, 1000);
-      res = regCI.calculate();
-    } else if (ciMethod === "default") {
-      let regCI = new JackknifeConfidenceInterval(x, y, regression);
-      res = regCI.calculate();
-    }
-  } else if (regressionMethod === "wdeming") {
-    let regression = new WeightedDemingRegression(errorRatio);
-    if (ciMethod === "bootstrap") {
-      let regCI = new BootstrapConfidenceInterval(x, y, regression, 1000);
-      res = regCI.calculate();
-    } else if (ciMethod === "default") {
-      let regCI = new JackknifeConfidenceInterval(x, y, regression);
-      res = regCI.calculate();
-    }
-  }
-  return res;
-} //doRegression
+const REGRESSION_TYPES: { [key: string]: string } = {
+  paba: REG_METHOD.PABA,
+  deming: REG_METHOD.DEMING,
+  wdeming: REG_METHOD.WDEMING,
+  ols: REG_METHOD.OLS,
+  wols: REG_METHOD.WOLS,
+};
+
+const OUTLIER_FILL = "#FFC7CE"; // Highlight for rows flagged as outliers
+
+/* Output labels for the jackknife alternative confidence interval methods */
+const CI_METHOD_LABELS: { [key: string]: string } = {
+  analytic: "Analytic CI",
+  bootstrap: "Bootstrap CI",
+  bca: "BCa Bootstrap CI",
+  tboot: "Student-t Bootstrap CI",
+};
 
 export default function Precision(props: RegressionProps) {
   const styles = useStyles();
   const regressionTypeId = useId("regression-type");
+  const [progress, setProgress] = React.useState<number | undefined>(undefined); // Undefined unless running
+  const cancelCalculation = React.useRef<() => void>(() => {});
 
-  function createBlandAltmanChart(
+  async function createBlandAltmanChart(
     xData: InputData,
     yData: InputData,
     apsAbs: number,
-    apsRel: number
+    apsRel: number,
+    ciBands: BlandAltmanStatistics | null
   ) {
     if (props.cdRangeValue === "") {
       throw new Error("Please specify the chart data output range.");
@@ -297,21 +329,39 @@ export default function Precision(props: RegressionProps) {
       apsAbs,
       apsRel,
       props.cdRangeValue,
-      props.baRangeValue
+      props.baRangeValue,
+      ciBands,
+      props.chartOptions
     );
-    blandAltmanChart.createChart();
+    await blandAltmanChart.createChart();
+    return blandAltmanChart.name;
   } // createBlandAltmanChart
 
-  function createRegressionChart(
+  async function createRegressionChart(
     xData: InputData,
     yData: InputData,
-    regressionResults: RegressionResults,
+    regressionResults: ConfidenceIntervalModel,
     apsAbs: number,
-    apsRel: number
+    apsRel: number,
+    alpha: number
   ) {
     if (props.cdRangeValue === "") {
       throw new Error("Please specify the chart data output range.");
     }
+    // Bootstrap bands are used when available, otherwise the bands are calculated from the SEs
+    let ciBand: ConfidenceBand | null = null;
+    if (props.showRegCiBands) {
+      ciBand =
+        regressionResults.band ??
+        analyticConfidenceBand(regressionResults, xData.means, alpha) ??
+        null;
+      if (ciBand === null) {
+        props.notify(
+          "warning",
+          "Confidence bands require standard errors. Select a bootstrap confidence interval method."
+        );
+      }
+    }
     const regressionChart = new ExcelRegressionChart(
       xData.means,
       yData.means,
@@ -320,11 +370,70 @@ export default function Precision(props: RegressionProps) {
       apsAbs,
       apsRel,
       props.cdRangeValue,
-      props.scRangeValue
+      props.scRangeValue,
+      ciBand,
+      props.chartOptions
     );
-    regressionChart.createChart();
+    await regressionChart.createChart();
+    return regressionChart.name;
   } // createRegressionChart
 
+  async function createResidualChart(
+    xArr: number[],
+    yArr: number[],
+    regressionResults: ConfidenceIntervalModel,
+    regressionMethod: string,
+    errorRatio: number
+  ) {
+    if (props.cdRangeValue === "") {
+      throw new Error("Please specify the chart data output range.");
+    }
+    const diagnostics = regressionResiduals(
+      xArr,
+      yArr,
+      regressionResults,
+      regressionMethod,
+      errorRatio
+    );
+    const nFlagged = diagnostics.flagged.filter((f) => f).length;
+    if (nFlagged > 0) {
+      props.notify(
+        "warning",
+        `${nFlagged} sample(s) have an absolute standardized residual greater than ${diagnostics.limit}.`
+      );
+    }
+    const residualChart = new ExcelResidualChart(
+      xArr,
+      diagnostics,
+      props.cdRangeValue,
+      props.scRangeValue,
+      props.chartOptions
+    );
+    await residualChart.createChart();
+    return residualChart.name;
+  } // createResidualChart
+
+  async function createMountainPlot(
+    comparisons: MountainComparison[],
+    apsAbs: number,
+    apsRel: number
+  ) {
+    if (props.cdRangeValue === "") {
+      throw new Error("Please specify the chart data output range.");
+    }
+    const mountainChart = new ExcelMountainPlotChart(
+      comparisons,
+      props.differencePlotType,
+      apsAbs,
+      apsRel,
+      props.cdRangeValue,
+      props.mpRangeValue,
+      props.chartOptions
+    );
+    await mountainChart.createChart();
+    return mountainChart.name;
+  } // createMountainPlot
+
   const loadThresholds = () => {
     let thresholds: number[][] = [];
     if (props.xThreshold0 !== "" && props.yThreshold0 !== "") {
@@ -342,6 +451,28 @@ export default function Precision(props: RegressionProps) {
     return thresholds;
   };
 
+  // Read the medical decision levels. These may be entered as a list of
+  // numbers separated by commas or as a cell range.
+  const loadDecisionLevels = async (
+    context: Excel.RequestContext,
+    worksheet: Excel.Worksheet
+  ): Promise<number[]> => {
+    const text = props.decisionLevels.trim();
+    if (text === "") return [];
+    const values = text.split(/[,;\s]+/).map((v) => Number(v));
+    if (values.every((v) => Number.isFinite(v))) return values;
+    const range = worksheet.getRange(text);
+    range.load(["values"]);
+    await context.sync();
+    const levels: number[] = [];
+    for (const row of range.values) {
+      for (const value of row) {
+        if (typeof value === "number") levels.push(value);
+      }
+    }
+    return levels;
+  }; // loadDecisionLevels
+
   const runRegression = async () => {
     await Excel.run(async (context) => {
       const currentWorksheet = context.workbook.worksheets.getActiveWorksheet();
@@ -405,9 +536,46 @@ export default function Precision(props: RegressionProps) {
         let yData = processRangeData(yRange);
         let xArr = xData.means;
         let yArr = yData.means;
+        const allX = xArr; // Before any outliers are excluded
+        const allY = yArr;
         if (xData.size !== yData.size) {
           throw new RangeError("X and Y ranges must have the same number of rows");
         }
+
+        // Remove the outlier highlights of a previous run
+        xRange.format.fill.clear();
+        yRange.format.fill.clear();
+
+        // Screen the differences for outliers. Flagged rows are highlighted
+        // and optionally excluded from the analysis.
+        let outliers: EsdOutlier[] = [];
+        if (props.screenOutliers && xData.size > 2) {
+          outliers = pairedOutliers(xArr, yArr, props.differencePlotType);
+          for (const outlier of outliers) {
+            const row = xData.rows[outlier.index];
+            xRange.getRow(row).format.fill.color = OUTLIER_FILL;
+            yRange.getRow(row).format.fill.color = OUTLIER_FILL;
+          }
+          await context.sync();
+          if (outliers.length > 0) {
+            props.notify(
+              "warning",
+              `${outliers.length} outlier(s) found in the differences.` +
+                (props.excludeOutliers ? " These have been excluded." : "")
+            );
+          }
+          if (props.excludeOutliers && outliers.length > 0) {
+            const excluded = new Set(outliers.map((o) => o.index));
+            xArr = xArr.filter((_, i) => !excluded.has(i));
+            yArr = yArr.filter((_, i) => !excluded.has(i));
+            xData.means = xArr;
+            yData.means = yArr;
+            for (const inputData of [xData, yData]) {
+              inputData.x1 = inputData.x1.filter((_, i) => !excluded.has(i));
+              inputData.x2 = inputData.x2.filter((_, i) => !excluded.has(i));
+            }
+          }
+        }
         if (xData.size > 0) {
           let errRatio = DEFAULT_ERROR_RATIO;
           if (!props.useCalcErrorRatio) {
@@ -418,28 +586,24 @@ export default function Precision(props: RegressionProps) {
             } else {
               errRatio = Number(props.errorRatio);
             }
-          } else if (props.useCalcErrorRatio && xData.devsq.length > 0) {
-            // If we are using the calculated error ratio, we will calculate it from the data
-            // The error ratio is the coefficient of variation of the means
-            // We will use the sd_y / sd_x as the error ratio for deming regression
-            // and cv_y / cv_x for weighted deming regression.
-            if (props.regressionType === "deming" || props.regressionType === "paba") {
-              // For Deming regression, we will use the standard deviation of the y data divided by the standard deviation of the x data
-              let sd_x = xData.sd;
-              let sd_y = yData.sd;
-              if (sd_x === 0 || sd_y === 0) {
-                throw new RangeError("Standard deviation cannot be zero");
-              }
-              errRatio = sd_y / sd_x;
-            } else if (props.regressionType === "wdeming") {
-              // For Weighted Deming regression, we will use the coefficient of variation of the y data divided by the coefficient of variation of the x data
-              let cv_x = xData.cv;
-              let cv_y = yData.cv;
-              if (cv_x === 0 || cv_y === 0) {
-                throw new RangeError("Coefficient of variation cannot be zero");
-              }
-              errRatio = cv_y / cv_x;
+          } else if (props.useCalcErrorRatio && xData.x2.length > 0) {
+            // If we are using the calculated error ratio, we will calculate it from the duplicates.
+            // The error ratio is the ratio of the error variances of the x and y methods,
+            // or of the squared coefficients of variation for weighted deming regression.
+            if (yData.x2.length === 0) {
+              throw new RangeError(
+                "Both methods must be measured in duplicate to calculate the error ratio."
+              );
             }
+            const ratio = errorRatio(
+              repeatability(xData.x1, xData.x2),
+              repeatability(yData.x1, yData.x2),
+              props.regressionType === "wdeming"
+            );
+            if (!(ratio.ratio > 0 && Number.isFinite(ratio.ratio))) {
+              throw new RangeError("Repeatability of the duplicates cannot be zero");
+            }
+            errRatio = ratio.ratio;
             // Set the error ratio input field to the calculated value
             props.setErrorRatio(errRatio.toFixed(4));
           }
@@ -454,25 +618,90 @@ export default function Precision(props: RegressionProps) {
             deltaRows += 2; // Add an extra row for labels
             deltaCols += 1; // Add an extra column for labels
           }
+          if (BOOTSTRAP_METHODS.includes(props.ciMethod)) {
+            deltaRows += 1; // Add a row for the seed used by the bootstrap
+          }
+          if (props.labelOutput && props.regressionType === "paba") {
+            deltaRows += 4; // Add rows for the Kendall's tau and cusum tests
+          }
+          if (props.labelOutput && ["ols", "wols"].includes(props.regressionType)) {
+            deltaRows += 2; // Add rows for the analysis of variance
+          }
           outputRng = outputRng.getResizedRange(deltaRows, deltaCols);
 
           // Run the regression
-          let res: RegressionResults = doRegression(xArr, yArr, props.regressionType, props.ciMethod, errRatio);
+          const alpha = props.alpha === "" ? 0.05 : Number(props.alpha);
+          if (!(alpha > 0 && alpha < 1)) {
+            throw new RangeError("Alpha must be a number between 0 and 1.");
+          }
+          const bootstrapN = Number(props.bootstrapN);
+          if (!(Number.isInteger(bootstrapN) && bootstrapN > 0)) {
+            throw new RangeError("Number of bootstrap samples must be a positive integer.");
+          }
+          const seed = parseSeed(props.seed);
+          const isBootstrap = BOOTSTRAP_METHODS.includes(props.ciMethod);
+          const regressionMethod = REGRESSION_TYPES[props.regressionType];
+          if (regressionMethod === undefined) {
+            throw new Error(`Unknown regression method: ${props.regressionType}`);
+          }
+          const calculation = runInWorker(
+            {
+              type: "regression",
+              x: xArr,
+              y: yArr,
+              regressionMethod: regressionMethod,
+              errorRatio: errRatio,
+              iterMax: DEFAULT_ITER_MAX,
+              threshold: DEFAULT_THRESHOLD,
+              alpha: alpha,
+              ciMethod: props.ciMethod,
+              bootstrapN: bootstrapN,
+              seed: seed,
+            },
+            (completed, total) => setProgress(completed / total)
+          );
+          cancelCalculation.current = calculation.cancel;
+          setProgress(0);
+          let res: ConfidenceIntervalModel;
+          try {
+            res = await calculation.result;
+          } finally {
+            setProgress(undefined);
+          }
+          if (res.kendall !== undefined && !res.kendall.significant) {
+            props.notify(
+              "warning",
+              "Kendall's tau is not significant. Passing-Bablok regression requires the results to be correlated."
+            );
+          } else if (res.kendall !== undefined && !res.kendall.positive) {
+            props.notify(
+              "info",
+              "The results are negatively correlated. Passing-Bablok regression for negative correlation was used."
+            );
+          }
           let data: any[][] = [];
           if (props.labelOutput) {
             let method = "Passing-Bablock Regression";
-            let ciType = "Non-parametric CI";
+            let ciType = CI_METHOD_LABELS[props.ciMethod];
             let seLabel = "SE";
             if (props.regressionType === "deming") {
               method = "Deming Regression";
-              ciType = props.ciMethod === "default" ? "Jackknife CI" : "Bootstrap CI";
+              ciType = ciType ?? "Jackknife CI";
             } else if (props.regressionType === "wdeming") {
               method = "Weighted Deming Regression";
-              ciType = props.ciMethod === "default" ? "Jackknife CI" : "Bootstrap CI";
+              ciType = ciType ?? "Jackknife CI";
+            } else if (props.regressionType === "ols") {
+              method = "Ordinary Least Squares Regression";
+              ciType = ciType ?? "Parametric CI";
+            } else if (props.regressionType === "wols") {
+              method = "Weighted Least Squares Regression";
+              ciType = ciType ?? "Parametric CI";
             } else {
-              //Passing-Bablock
-              ciType = props.ciMethod === "default" ? "Non-parametric CI" : "Bootstrap CI";
-              seLabel = "";
+              //Passing-Bablock. Standard errors are only available from the bootstrap.
+              if (ciType === undefined) {
+                ciType = "Non-parametric CI";
+                seLabel = "";
+              }
             }
             data = [
               [method, "", "", ciType, ""],
@@ -480,14 +709,206 @@ export default function Precision(props: RegressionProps) {
               ["Slope", res.slope, res.slopeLCL, res.slopeUCL, res.slopeSE],
               ["Intercept", res.intercept, res.interceptLCL, res.interceptUCL, res.interceptSE],
             ];
+            if (isBootstrap) data.push(["Seed", seed, "", "", ""]);
+            if (res.kendall !== undefined) {
+              data.push(["Kendall Correlation Test", "Tau", "z", "p", "Correlation"]);
+              data.push([
+                "",
+                res.kendall.tau,
+                res.kendall.statistic,
+                res.kendall.p,
+                res.kendall.positive ? "Positive" : "Negative",
+              ]);
+            }
+            if (res.cusum !== undefined) {
+              data.push(["Cusum Linearity Test", "Statistic", "Critical Value", "Result", ""]);
+              data.push([
+                "",
+                res.cusum.statistic,
+                res.cusum.critical,
+                res.cusum.linear ? "Linear" : "Not Linear",
+                "",
+              ]);
+            }
+            if (res.anova !== undefined) {
+              data.push(["ANOVA", "R Squared", "Sy.x", "F", "p"]);
+              data.push(["", res.anova.rSquared, res.anova.syx, res.anova.f, res.anova.p]);
+            }
           } else {
             data = [
               [res.slope, res.slopeLCL, res.slopeUCL, res.slopeSE],
               [res.intercept, res.interceptLCL, res.interceptUCL, res.interceptSE],
             ];
+            if (isBootstrap) data.push([seed, "", "", ""]);
           }
           outputRng.values = data;
 
+          // Further tables are written below the regression results
+          let nextRow = data.length + 1;
+
+          // Correlation coefficients and the adequacy of the data range
+          if (xArr.length > 3) {
+            const r = pearson(xArr, yArr, alpha);
+            if (r.coefficient < RANGE_ADEQUACY_R) {
+              props.notify(
+                "warning",
+                `Pearson r (${r.coefficient.toFixed(3)}) is less than ${RANGE_ADEQUACY_R}. The data range may be too narrow for least squares or Deming regression.`
+              );
+            }
+            if (props.showCorrelation) {
+              const rho = spearman(xArr, yArr, alpha);
+              const tau = kendall(xArr, yArr);
+              const correlationData: any[][] = [
+                ["Correlation", "Coefficient", "LCL", "UCL", "p"],
+                ["Pearson r", r.coefficient, r.lcl, r.ucl, r.p],
+                ["Spearman rho", rho.coefficient, rho.lcl, rho.ucl, rho.p],
+                ["Kendall tau", tau.coefficient, "", "", tau.p],
+              ];
+              // Without labels only the values are written
+              const values = props.labelOutput
+                ? correlationData
+                : correlationData.slice(1).map((row) => row.slice(1));
+              const correlationRng = outputRng
+                .getCell(0, 0)
+                .getOffsetRange(nextRow, 0)
+                .getAbsoluteResizedRange(values.length, values[0].length);
+              correlationRng.values = values;
+              nextRow += values.length + 1;
+            }
+          }
+
+          // Bias at the medical decision levels is written below the regression results
+          const decisionLevels = await loadDecisionLevels(context, currentWorksheet);
+          if (decisionLevels.length > 0) {
+            if (res.covariance === undefined || isNaN(res.covariance)) {
+              props.notify(
+                "warning",
+                "Confidence intervals for bias at the decision levels require the covariance of the slope and intercept, which the default Passing-Bablok confidence interval does not give. Select a bootstrap method."
+              );
+            }
+            const biasData: any[][] = [];
+            if (props.labelOutput) {
+              const header = [
+                "Decision Level",
+                "Predicted Y",
+                "Bias",
+                "LCL",
+                "UCL",
+                "Bias %",
+                "LCL %",
+                "UCL %",
+                "Allowable",
+                "Within APS",
+              ];
+              biasData.push(["Bias at Medical Decision Levels", ...header.slice(1).map(() => "")]);
+              biasData.push(header);
+            }
+            const biases = decisionLevelBias(
+              res,
+              decisionLevels,
+              xArr.length,
+              alpha,
+              apsAbs,
+              apsRel
+            );
+            for (const b of biases) {
+              biasData.push([
+                b.level,
+                b.predicted,
+                b.bias,
+                b.biasLCL,
+                b.biasUCL,
+                b.relBias,
+                b.relBiasLCL,
+                b.relBiasUCL,
+                isNaN(b.allowable) ? "" : b.allowable,
+                b.withinAps === undefined ? "" : b.withinAps ? "Yes" : "No",
+              ]);
+            }
+            const biasRng = outputRng
+              .getCell(0, 0)
+              .getOffsetRange(nextRow, 0)
+              .getAbsoluteResizedRange(biasData.length, biasData[0].length);
+            biasRng.values = biasData;
+            nextRow += biasData.length + 1;
+          }
+
+          // List the outliers below the regression results
+          if (outliers.length > 0) {
+            const outlierData: any[][] = [];
+            if (props.labelOutput) {
+              outlierData.push(["Outliers (Generalized ESD)", "", "", "", ""]);
+              outlierData.push(["Row", "X", "Y", "Difference", "Excluded"]);
+            }
+            for (const outlier of outliers) {
+              outlierData.push([
+                xData.rows[outlier.index] + 1,
+                allX[outlier.index],
+                allY[outlier.index],
+                outlier.value,
+                props.excludeOutliers ? "Yes" : "No",
+              ]);
+            }
+            const outlierRng = outputRng
+              .getCell(0, 0)
+              .getOffsetRange(nextRow, 0)
+              .getAbsoluteResizedRange(outlierData.length, outlierData[0].length);
+            outlierRng.values = outlierData;
+            nextRow += outlierData.length + 1;
+          }
+
+          // Statistics from duplicate measurements
+          if (xData.x2.length > 0 || yData.x2.length > 0) {
+            const useCV = props.regressionType === "wdeming";
+            const replicateData: any[][] = [
+              ["Replicate Statistics", "", "", ""],
+              ["", "Estimate", "LCL", "UCL"],
+            ];
+            const xRep = xData.x2.length > 0 ? repeatability(xData.x1, xData.x2, alpha) : null;
+            const yRep = yData.x2.length > 0 ? repeatability(yData.x1, yData.x2, alpha) : null;
+            for (const [name, r] of [
+              ["X", xRep],
+              ["Y", yRep],
+            ] as const) {
+              if (r !== null) {
+                replicateData.push([`Repeatability SD (${name})`, r.sd, r.sdLCL, r.sdUCL]);
+                replicateData.push([`Repeatability CV (${name})`, r.cv, r.cvLCL, r.cvUCL]);
+              }
+            }
+            if (xRep !== null && yRep !== null) {
+              const ratio = errorRatio(xRep, yRep, useCV, alpha);
+              replicateData.push([
+                useCV ? "Error Ratio (CV)" : "Error Ratio (SD)",
+                ratio.ratio,
+                ratio.lcl,
+                ratio.ucl,
+              ]);
+            }
+            const repBA = replicateBlandAltman(
+              xData.x1,
+              xData.x2,
+              yData.x1,
+              yData.x2,
+              props.differencePlotType,
+              alpha
+            );
+            replicateData.push(
+              ["Replicate Mean Difference", repBA.bias, repBA.biasLCL, repBA.biasUCL],
+              ["Adjusted SD of Differences", repBA.sd, "", ""],
+              ["Adjusted Upper LoA", repBA.upperLoA, "", ""],
+              ["Adjusted Lower LoA", repBA.lowerLoA, "", ""]
+            );
+            // Without labels only the values are written
+            const values = props.labelOutput
+              ? replicateData
+              : replicateData.slice(2).map((row) => row.slice(1));
+            const replicateRng = outputRng
+              .getCell(0, 0)
+              .getOffsetRange(nextRow, 0)
+              .getAbsoluteResizedRange(values.length, values[0].length);
+            replicateRng.values = values;
+          }
+
           // Process concordance assessment if thresholds have been specified
           const concordanceThresholds = loadThresholds();
           if (concordanceThresholds.length > 0) {
@@ -515,6 +936,54 @@ export default function Precision(props: RegressionProps) {
             }
           }
 
+          // Bland-Altman statistics
+          const baStats = blandAltmanStatistics(
+            xArr,
+            yArr,
+            props.differencePlotType,
+            alpha,
+            props.loaCiMethod,
+            apsAbs,
+            apsRel
+          );
+          if (props.baStatsOutputRange !== "") {
+            const diffLabel =
+              props.differencePlotType === "rel"
+                ? "Relative Difference"
+                : props.differencePlotType === "reg"
+                  ? "Regression Method"
+                  : "Absolute Difference";
+            const ciLabel = props.loaCiMethod === "exact" ? "Exact CI" : "Approximate CI";
+            const baData: any[][] = [
+              [`Bland-Altman Statistics (${diffLabel})`, "", "", ""],
+              ["n", baStats.n, "", ""],
+              ["SD", baStats.sd, "", ""],
+              ["", "Estimate", "LCL", "UCL"],
+              ["Mean Difference", baStats.bias, baStats.biasLCL, baStats.biasUCL],
+              ["Upper LoA", baStats.upperLoA, baStats.upperLoaLCL, baStats.upperLoaUCL],
+              ["Lower LoA", baStats.lowerLoA, baStats.lowerLoaLCL, baStats.lowerLoaUCL],
+              ["LoA CI Method", ciLabel, "", ""],
+              ["% Outside APS", isNaN(baStats.pctOutsideAps) ? "" : baStats.pctOutsideAps, "", ""],
+            ];
+            if (props.differencePlotType === "reg") {
+              // Fitted lines as a function of the mean of the two methods
+              const fit = regressionBlandAltman(xArr, yArr);
+              baData.push(
+                ["Regression on Mean", "Intercept", "Slope", ""],
+                ["Mean Difference", fit.bias.intercept, fit.bias.slope, ""],
+                ["SD", fit.sd.intercept, fit.sd.slope, ""],
+                ["Upper LoA", fit.upperLoA.intercept, fit.upperLoA.slope, ""],
+                ["Lower LoA", fit.lowerLoA.intercept, fit.lowerLoA.slope, ""]
+              );
+            }
+            const baStatsRng = currentWorksheet
+              .getRange(props.baStatsOutputRange)
+              .getCell(0, 0)
+              .getAbsoluteResizedRange(baData.length, 4);
+            baStatsRng.values = baData;
+            await context.sync();
+          }
+
           // Check if the worksheet is protected
           currentWorksheet.load("protection/protected");
           await context.sync();
@@ -524,13 +993,71 @@ export default function Precision(props: RegressionProps) {
               "The worksheet is protected. The charts will not display if the worksheet is protected."
             );
           }
+          // Names of the charts created or refreshed by this run
+          const chartNames: string[] = [];
           // Create Bland-Altman chart if requested
           if (props.baRangeValue !== "") {
-            createBlandAltmanChart(xData, yData, apsAbs, apsRel);
+            const name = await createBlandAltmanChart(
+              xData,
+              yData,
+              apsAbs,
+              apsRel,
+              props.showBaCiBands ? baStats : null
+            );
+            chartNames.push(name);
           }
           // Create regression chart if requested
           if (props.scRangeValue !== "") {
-            createRegressionChart(xData, yData, res, apsAbs, apsRel);
+            chartNames.push(await createRegressionChart(xData, yData, res, apsAbs, apsRel, alpha));
+          }
+          // Create residual chart if requested
+          if (props.showResiduals) {
+            chartNames.push(await createResidualChart(xArr, yArr, res, regressionMethod, errRatio));
+          }
+          // Create mountain plot if requested, overlaying any other Y ranges
+          if (props.mpRangeValue !== "") {
+            const comparisons: MountainComparison[] = [
+              { name: props.yRangeValue, x: xArr, y: yArr },
+            ];
+            // Rows excluded as outliers are also left out of the overlays
+            const excludedRows = new Set(
+              props.excludeOutliers ? outliers.map((o) => xData.rows[o.index]) : []
+            );
+            for (const address of props.mountainOverlay.split(",")) {
+              if (address.trim() === "") continue;
+              const overlayRange = currentWorksheet.getRange(address.trim());
+              overlayRange.load(["rowCount", "columnCount", "values"]);
+              await context.sync();
+              if (overlayRange.rowCount !== xRange.rowCount) {
+                throw new RangeError(
+                  `Mountain plot range ${address.trim()} must have the same number of rows as the X range`
+                );
+              }
+              // Pair the overlay values with X by their row within the range
+              const overlayData = processRangeData(overlayRange);
+              const overlayValues = new Map<number, number>();
+              for (let i = 0; i < overlayData.size; i++) {
+                overlayValues.set(overlayData.rows[i], overlayData.means[i]);
+              }
+              const x: number[] = [];
+              const y: number[] = [];
+              for (let i = 0; i < allX.length; i++) {
+                const row = xData.rows[i];
+                const value = overlayValues.get(row);
+                if (value === undefined || excludedRows.has(row)) continue;
+                x.push(allX[i]);
+                y.push(value);
+              }
+              comparisons.push({ name: address.trim(), x: x, y: y });
+            }
+            chartNames.push(await createMountainPlot(comparisons, apsAbs, apsRel));
+          }
+          // Delete charts left over from earlier runs with the same chart data cell
+          if (props.deleteOrphanCharts && props.cdRangeValue !== "") {
+            const deleted = await deleteOrphanCharts(props.cdRangeValue, chartNames);
+            if (deleted > 0) {
+              props.notify("info", `${deleted} chart(s) from an earlier run were deleted.`);
+            }
           }
         } else {
           throw new RangeError("Insufficient data");
@@ -539,7 +1066,7 @@ export default function Precision(props: RegressionProps) {
       } catch (error) {
         console.log(error);
         if (error instanceof Error) {
-          props.notify("error", error.message);
+          props.notify(error.name === "AbortError" ? "info" : "error", error.message);
         }
       }
     });
@@ -563,6 +1090,26 @@ export default function Precision(props: RegressionProps) {
     props.setCiMethod(event.target.value);
   };
 
+  const handleAlphaChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setAlpha(event.target.value);
+  };
+
+  const handleBootstrapNChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setBootstrapN(event.target.value);
+  };
+
+  const handleSeedChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setSeed(event.target.value);
+  };
+
+  const handleDecisionLevelsChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setDecisionLevels(event.target.value);
+  };
+
+  const handleMountainOverlayChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setMountainOverlay(event.target.value);
+  };
+
   const selectDiffferencePlotType = (event: React.ChangeEvent<HTMLSelectElement>) => {
     props.setDifferencePlotType(event.target.value);
   };
@@ -571,6 +1118,38 @@ export default function Precision(props: RegressionProps) {
     props.setLabelOutput(event.target.checked);
   };
 
+  const toggleShowCorrelation = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setShowCorrelation(event.target.checked);
+  };
+
+  const selectLoaCiMethod = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    props.setLoaCiMethod(event.target.value);
+  };
+
+  const toggleShowBaCiBands = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setShowBaCiBands(event.target.checked);
+  };
+
+  const toggleShowRegCiBands = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setShowRegCiBands(event.target.checked);
+  };
+
+  const toggleDeleteOrphanCharts = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setDeleteOrphanCharts(event.target.checked);
+  };
+
+  const toggleShowResiduals = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setShowResiduals(event.target.checked);
+  };
+
+  const toggleScreenOutliers = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setScreenOutliers(event.target.checked);
+  };
+
+  const toggleExcludeOutliers = (event: React.ChangeEvent<HTMLInputElement>) => {
+    props.setExcludeOutliers(event.target.checked);
+  };
+
   const toggleUseCalcErrorRatio = (event: React.ChangeEvent<HTMLInputElement>) => {
     props.setUseCalcErrorRatio(event.target.checked);
   };
@@ -651,6 +1230,8 @@ export default function Precision(props: RegressionProps) {
           <option value="paba">{props.uitext["opt_paba"]}</option>
           <option value="deming">{props.uitext["opt_dem"]}</option>
           <option value="wdeming">{props.uitext["opt_wdem"]}</option>
+          <option value="ols">{props.uitext["opt_ols"]}</option>
+          <option value="wols">{props.uitext["opt_wols"]}</option>
         </Select>
       </div>
       <div className={styles.field}>
@@ -662,9 +1243,44 @@ export default function Precision(props: RegressionProps) {
           onChange={selectCiMethod}
         >
           <option value="default">{props.uitext["opt_default"]}</option>
+          <option value="analytic">{props.uitext["opt_analytic"]}</option>
           <option value="bootstrap">{props.uitext["opt_bootstrap"]}</option>
+          <option value="bca">{props.uitext["opt_bca"]}</option>
+          <option value="tboot">{props.uitext["opt_tboot"]}</option>
         </Select>
       </div>
+      <Field label={props.uitext["lbl_alpha"]} className={styles.field}>
+        <Tooltip content={props.uitext["tip_alpha"]} relationship="label">
+          <Input
+            value={props.alpha}
+            type="number"
+            className={styles.inputfield}
+            onChange={handleAlphaChange}
+          />
+        </Tooltip>
+      </Field>
+      {BOOTSTRAP_METHODS.includes(props.ciMethod) && (
+        <div>
+          <Field label={props.uitext["lbl_bootstrap_n"]} className={styles.field}>
+            <Input
+              value={props.bootstrapN}
+              type="number"
+              className={styles.inputfield}
+              onChange={handleBootstrapNChange}
+            />
+          </Field>
+          <Field label={props.uitext["lbl_seed"]} className={styles.field}>
+            <Tooltip content={props.uitext["tip_seed"]} relationship="label">
+              <Input
+                value={props.seed}
+                type="number"
+                className={styles.inputfield}
+                onChange={handleSeedChange}
+              />
+            </Tooltip>
+          </Field>
+        </div>
+      )}
       <div id="errorRatioCard" className={styles.mvwhidden}>
         <Checkbox
           label={props.uitext["lbl_use_calc_ratio"]}
@@ -679,6 +1295,16 @@ export default function Precision(props: RegressionProps) {
         <label htmlFor="lbl-output">{props.uitext["lbl_output_labels"]}</label>
         <Checkbox id="lbl-output" checked={props.labelOutput} onChange={toggleLabelOutput} />
       </div>
+      <div className={styles.field}>
+        <label htmlFor="correlation">{props.uitext["lbl_correlation"]}</label>
+        <Tooltip content={props.uitext["tip_correlation"]} relationship="label">
+          <Checkbox
+            id="correlation"
+            checked={props.showCorrelation}
+            onChange={toggleShowCorrelation}
+          />
+        </Tooltip>
+      </div>
       <RangeInput
         label={props.uitext["lbl_ba_range"]}
         rangeValue={props.baRangeValue}
@@ -697,8 +1323,33 @@ export default function Precision(props: RegressionProps) {
         >
           <option value="abs">{props.uitext["opt_abs"]}</option>
           <option value="rel">{props.uitext["opt_rel"]}</option>
+          <option value="reg">{props.uitext["opt_reg"]}</option>
         </Select>
       </div>
+      <RangeInput
+        label={props.uitext["lbl_ba_stats_range"]}
+        rangeValue={props.baStatsOutputRange}
+        setRangeValue={props.setBaStatsOutputRange}
+        validationMessage={props.uitext["msg_output_range"]}
+        tooltipContent={props.uitext["tip_ba_stats_range"]}
+        uitext={props.uitext}
+      />
+      <div className={styles.field}>
+        <label htmlFor="loa-ci-method">{props.uitext["lbl_loa_ci_method"]}</label>
+        <Select
+          value={props.loaCiMethod}
+          id="loa-ci-method"
+          className={styles.selection}
+          onChange={selectLoaCiMethod}
+        >
+          <option value="exact">{props.uitext["opt_exact"]}</option>
+          <option value="approx">{props.uitext["opt_approx"]}</option>
+        </Select>
+      </div>
+      <div className={styles.field}>
+        <label htmlFor="ba-ci-bands">{props.uitext["lbl_ba_ci_bands"]}</label>
+        <Checkbox id="ba-ci-bands" checked={props.showBaCiBands} onChange={toggleShowBaCiBands} />
+      </div>
       <RangeInput
         label={props.uitext["lbl_sc_range"]}
         rangeValue={props.scRangeValue}
@@ -707,6 +1358,53 @@ export default function Precision(props: RegressionProps) {
         tooltipContent={props.uitext["tip_sc_range"]}
         uitext={props.uitext}
       />
+      <div className={styles.field}>
+        <label htmlFor="reg-ci-bands">{props.uitext["lbl_reg_ci_bands"]}</label>
+        <Tooltip content={props.uitext["tip_reg_ci_bands"]} relationship="label">
+          <Checkbox
+            id="reg-ci-bands"
+            checked={props.showRegCiBands}
+            onChange={toggleShowRegCiBands}
+          />
+        </Tooltip>
+      </div>
+      <RangeInput
+        label={props.uitext["lbl_mp_range"]}
+        rangeValue={props.mpRangeValue}
+        setRangeValue={props.setMpRangeValue}
+        validationMessage={props.uitext["msg_sc_range"]}
+        tooltipContent={props.uitext["tip_mp_range"]}
+        uitext={props.uitext}
+      />
+      {props.mpRangeValue !== "" && (
+        <Field label={props.uitext["lbl_mp_overlay"]} className={styles.field}>
+          <Tooltip content={props.uitext["tip_mp_overlay"]} relationship="label">
+            <Input value={props.mountainOverlay} onChange={handleMountainOverlayChange} />
+          </Tooltip>
+        </Field>
+      )}
+      <div className={styles.field}>
+        <label htmlFor="residuals">{props.uitext["lbl_residuals"]}</label>
+        <Tooltip content={props.uitext["tip_residuals"]} relationship="label">
+          <Checkbox id="residuals" checked={props.showResiduals} onChange={toggleShowResiduals} />
+        </Tooltip>
+      </div>
+      <div className={styles.field}>
+        <label htmlFor="outliers">{props.uitext["lbl_outliers"]}</label>
+        <Tooltip content={props.uitext["tip_outliers"]} relationship="label">
+          <Checkbox id="outliers" checked={props.screenOutliers} onChange={toggleScreenOutliers} />
+        </Tooltip>
+      </div>
+      {props.screenOutliers && (
+        <div className={styles.field}>
+          <label htmlFor="exclude-outliers">{props.uitext["lbl_exclude_outliers"]}</label>
+          <Checkbox
+            id="exclude-outliers"
+            checked={props.excludeOutliers}
+            onChange={toggleExcludeOutliers}
+          />
+        </div>
+      )}
       <RangeInput
         label="Chart Data Output Range"
         rangeValue={props.cdRangeValue}
@@ -716,10 +1414,30 @@ export default function Precision(props: RegressionProps) {
         uitext={props.uitext}
       />
       <div className={styles.field}>
-        <Button appearance="primary" onClick={runRegression}>
+        <label htmlFor="delete-orphan-charts">{props.uitext["lbl_delete_orphan_charts"]}</label>
+        <Tooltip content={props.uitext["tip_delete_orphan_charts"]} relationship="label">
+          <Checkbox
+            id="delete-orphan-charts"
+            checked={props.deleteOrphanCharts}
+            onChange={toggleDeleteOrphanCharts}
+          />
+        </Tooltip>
+      </div>
+      <Field label={props.uitext["lbl_decision_levels"]} className={styles.field}>
+        <Tooltip content={props.uitext["tip_decision_levels"]} relationship="label">
+          <Input value={props.decisionLevels} onChange={handleDecisionLevelsChange} />
+        </Tooltip>
+      </Field>
+      <div className={styles.field}>
+        <Button appearance="primary" onClick={runRegression} disabled={progress !== undefined}>
           {props.uitext["btn_run"]}
         </Button>
       </div>
+      <CalculationProgress
+        progress={progress}
+        onCancel={() => cancelCalculation.current()}
+        uitext={props.uitext}
+      />
       <Accordion collapsible={true}>
         <AccordionItem value="20">
           <AccordionHeader>{props.uitext["h_cohen_kappa"]}</AccordionHeader>
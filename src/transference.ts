@@ -0,0 +1,105 @@
+/**
+ * Verification of a transferred reference interval.
+ *
+ * CLSI EP28 allows a laboratory to adopt a reference interval established
+ * elsewhere by testing 20 local reference subjects. The interval is accepted
+ * if no more than 2 of the 20 results (10%) fall outside the limits. If 3 or
+ * 4 fall outside, another 20 subjects are tested, and the interval is
+ * accepted if no more than 4 of the 40 results fall outside. The rule extends
+ * to 6 of 60 results. If more fall outside, the interval is not transferable
+ * and the laboratory should establish its own.
+ *
+ * If the interval is correct for the local population, the number of results
+ * outside the limits follows a binomial distribution with probability alpha,
+ * 0.05 for a 95% reference interval. The exact probability of the observed
+ * number or more outside the limits is reported.
+ *
+ * CLSI EP28-A3c. Defining, Establishing, and Verifying Reference Intervals in
+ * the Clinical Laboratory. 3rd Edition. 2010.
+ *
+ * @author Douglas Chesher
+ */
+
+import { binomial } from "jstat-esm";
+
+const PASS = "pass";
+const EXTEND = "extend"; // Test another 20 subjects
+const FAIL = "fail";
+
+const MIN_SUBJECTS = 20;
+const MAX_SUBJECTS = 60; // The rule is extended to 40 and 60 subjects
+const SUBJECTS_PER_STEP = 20;
+const MAX_OUTSIDE_FRACTION = 0.1; // 2 of 20
+
+/* Result of a transference verification */
+interface TransferenceVerification {
+  n: number;
+  belowLower: number; // Number of results below the lower limit
+  aboveUpper: number;
+  outside: number;
+  maxOutside: number; // Largest number outside for the interval to be accepted
+  probability: number; // Exact probability of outside or more results outside the limits
+  decision: string; // PASS, EXTEND or FAIL
+}
+
+/**
+ * Probability of k or more successes in n binomial trials.
+ *
+ * @param k number of successes
+ * @param n number of trials
+ * @param p probability of success
+ * @returns P(X >= k)
+ */
+function binomialUpperTail(k: number, n: number, p: number): number {
+  let lower = 0;
+  for (let i = 0; i < k; i++) {
+    lower += binomial.pdf(i, n, p);
+  }
+  return Math.max(0, 1 - lower);
+} //binomialUpperTail
+
+/**
+ * Verify a reference interval with local results.
+ *
+ * @param data local reference results, 20, 40 or 60 subjects
+ * @param lowerLimit claimed lower reference limit
+ * @param upperLimit claimed upper reference limit
+ * @param alpha expected proportion outside the limits. Default is 0.05 for a 95% interval
+ * @returns counts outside the limits, the exact probability and the decision
+ */
+function verifyTransference(
+  data: number[],
+  lowerLimit: number,
+  upperLimit: number,
+  alpha: number = 0.05
+): TransferenceVerification {
+  const n = data.length;
+  if (n < MIN_SUBJECTS || n > MAX_SUBJECTS || n % SUBJECTS_PER_STEP !== 0) {
+    throw new RangeError("Verification requires the results of 20, 40 or 60 subjects.");
+  }
+  if (!(lowerLimit < upperLimit)) {
+    throw new RangeError("The lower reference limit must be less than the upper limit.");
+  }
+  const belowLower = data.filter((x) => x < lowerLimit).length;
+  const aboveUpper = data.filter((x) => x > upperLimit).length;
+  const outside = belowLower + aboveUpper;
+  const maxOutside = Math.round(MAX_OUTSIDE_FRACTION * n);
+  let decision = FAIL;
+  if (outside <= maxOutside) {
+    decision = PASS;
+  } else if (n < MAX_SUBJECTS && outside <= maxOutside + 2) {
+    // e.g. 3 or 4 of 20. Test another 20 subjects
+    decision = EXTEND;
+  }
+  return {
+    n: n,
+    belowLower: belowLower,
+    aboveUpper: aboveUpper,
+    outside: outside,
+    maxOutside: maxOutside,
+    probability: binomialUpperTail(outside, n, alpha),
+    decision: decision,
+  };
+} //verifyTransference
+
+export { PASS, EXTEND, FAIL, TransferenceVerification, binomialUpperTail, verifyTransference };
@@ -24,30 +24,108 @@ export class UIStrings {
     opt_paba: "Passing-Bablock",
     opt_dem: "Deming",
     opt_wdem: "Weighted Deming",
+    opt_ols: "Least Squares",
+    opt_wols: "Weighted Least Squares",
     lbl_ci_method: "Confidence Interval Method",
     opt_default: "Default",
+    opt_analytic: "Analytic",
     opt_bootstrap: "Bootstrap",
+    opt_bca: "Bootstrap BCa",
+    opt_tboot: "Bootstrap Student-t",
+    lbl_alpha: "Alpha",
+    tip_alpha:
+      "Significance level for the confidence intervals. Default is 0.05 for 95% confidence.",
+    lbl_bootstrap_n: "Bootstrap Samples",
+    lbl_seed: "Seed",
+    lbl_decision_levels: "Medical Decision Levels",
+    tip_decision_levels:
+      "Cell range or list of concentrations separated by commas, e.g. D1:D3 or 100, 200. Bias at each level is written below the regression results.",
+    tip_seed:
+      "Integer seed for the random number generator. Leave blank for a random seed. The seed used is written with the output.",
     lbl_use_calc_ratio: "Use Calculated Error Ratio",
     lbl_error_ratio: "Error Ratio",
     lbl_output_labels: "Output Labels",
+    lbl_correlation: "Correlation Coefficients",
+    tip_correlation:
+      "Write the Pearson, Spearman and Kendall correlation coefficients below the regression results.",
     lbl_ba_range: "Bland-Altman Output Range",
     msg_ba_range: "Must be a valid Excel range. e.g., C2:I15",
     tip_ba_range: "Cell range over which the Bland-Altman chart will be displayed.",
     lbl_diff_type: "Difference Plot Type",
     opt_abs: "Absolute",
     opt_rel: "Relative",
+    opt_reg: "Regression",
+    lbl_ba_stats_range: "Bland-Altman Statistics Output",
+    tip_ba_stats_range:
+      "Top left cell for the table of bias, limits of agreement and their confidence intervals. Leave blank to omit.",
+    lbl_loa_ci_method: "Limits of Agreement CI",
+    opt_exact: "Exact",
+    opt_approx: "Approximate",
+    lbl_ba_ci_bands: "Show Confidence Bands on Chart",
+    lbl_outliers: "Screen for Outliers",
+    tip_outliers:
+      "Test the differences for outliers using the generalized ESD procedure (CLSI EP09). Outlier rows are highlighted and listed below the results. Any fill in the X and Y ranges is cleared on each run.",
+    lbl_exclude_outliers: "Exclude Outliers",
+    lbl_residuals: "Residual Chart",
+    tip_residuals:
+      "Write the residuals to the chart data range and chart them beside the scatter chart. Large standardized residuals are flagged.",
     lbl_sc_range: "Scatter Chart Output Range",
     msg_sc_range: "Must be a valid Excel range. e.g., C16:I19",
     tip_sc_range: "Cell range over which the scatter chart will be displayed.",
+    lbl_reg_ci_bands: "Show Confidence Bands on Scatter Chart",
+    tip_reg_ci_bands:
+      "Draw the confidence band of the regression line as dashed lines. Bootstrap bands use the quantiles of the bootstrap regression lines, otherwise the standard errors are used.",
+    lbl_mp_range: "Mountain Plot Output Range",
+    tip_mp_range: "Cell range over which the mountain plot of the differences will be displayed.",
+    lbl_mp_overlay: "Mountain Plot Overlay",
+    tip_mp_overlay:
+      "Other Y ranges, separated by commas, to compare with the X range on the same mountain plot, e.g. T61:T160, V61:V160.",
+    lbl_delete_orphan_charts: "Delete Orphaned Charts",
+    tip_delete_orphan_charts:
+      "Delete charts created by the add-in for this chart data range that were not created or refreshed by this run.",
     lbl_chart_data_range: "Chart Data Output Range",
     msg_chart_data_range: "Must be a valid Excel cell reference. e.g., H1",
     tip_chart_data_range: "Top left cell where data used to construct the charts is to be saved.",
     btn_run: "Run",
+    btn_cancel: "Cancel",
+    lbl_calculating: "Calculating...",
     h_cohen_kappa: "Cohen's Kappa",
     inf_cohen_kappa:
       "Specify cutoffs for each method to assess concordance. Each method must have the same number of cutoffs.",
     lbl_concordance_range: "Concordance Output Range",
     tip_concordance_range: "Top left cell where the concordance metrics will be saved.",
+    h_chart_options: "Chart Options",
+    inf_chart_options:
+      "Titles, axes and colours of the method comparison charts. Blank titles and axis bounds use the defaults. Save the options to keep them with the workbook.",
+    lbl_chart_units: "Units",
+    tip_chart_units:
+      "Units of the results, e.g. mmol/L. Added to the titles of the axes in concentration units.",
+    lbl_chart: "Chart",
+    opt_chart_blandAltman: "Difference Chart",
+    opt_chart_regression: "Scatter Chart",
+    opt_chart_residual: "Residual Chart",
+    opt_chart_mountain: "Mountain Plot",
+    lbl_chart_title: "Chart Title",
+    tip_chart_title: "Leave blank for the default title.",
+    lbl_x_axis: "X Axis",
+    lbl_y_axis: "Y Axis",
+    lbl_axis_title: "Title",
+    lbl_axis_min: "Minimum",
+    lbl_axis_max: "Maximum",
+    lbl_axis_log: "Logarithmic Scale",
+    lbl_chart_colours: "Colours",
+    tip_chart_colour: "Colour name or hex code, e.g. blue or #4472C4.",
+    lbl_colour_points: "Data Points",
+    lbl_colour_identity: "Identity and Zero Lines",
+    lbl_colour_regression: "Regression and Mean Difference",
+    lbl_colour_loa: "Limits of Agreement",
+    lbl_colour_aps: "APS",
+    lbl_colour_ci: "Mean Difference CI",
+    lbl_colour_loaCi: "Limits of Agreement CI",
+    lbl_colour_flagged: "Flagged Residuals",
+    btn_save_chart_options: "Save to Workbook",
+    btn_reset_chart_options: "Reset",
+    msg_chart_options_saved: "Chart options have been saved in the workbook",
     h_precision: "Precision",
     h_precision_layout: "Precision Layout",
     h_qual_comp: "Qualitative Comparison",
@@ -56,7 +134,7 @@ export class UIStrings {
       "This add in was developed for use with the associated Method Verification Workbook. The default cell ranges used by the workbook can be populated by clicking the button below.",
     btn_load_defaults: "Load Defaults",
     inf_default_template:
-      "Alternatively, the defaults for a user defined template can defined in a worksheet and loaded from that page. The definitions need to be supplied in two columns from cells A2:B20. The first column should give the name of the attribute as it appears below. The second column must contain the values to be copied. A1 and B1 can be column headers but they are not read.",
+      "Alternatively, the defaults for a user defined template can defined in a worksheet and loaded from that page. The definitions need to be supplied in two columns from cells A2:B60. The first column should give the name of the attribute as it appears below. The second column must contain the values to be copied. A1 and B1 can be column headers but they are not read.",
     opt_import_ws: "Import from worksheet",
     lbl_layout_sheet: "Layout Sheet",
     tip_layout_sheet: "Name of the worksheet specifying the default values.",
@@ -105,16 +183,48 @@ export class UIStrings {
     lbl_layout_range: "Layout Range",
     msg_layout_range: "Must be a valid Excel cell reference. e.g., A26",
     inf_ref_int1:
-      "Derive reference intervals using the non-parametric or robust estimator (Horn's biweight quantile) methods.",
+      "Derive reference intervals using the non-parametric, robust estimator (Horn's biweight quantile) or parametric methods. The parametric method may be applied after a Box-Cox transformation, with the limits back-transformed.",
     inf_ref_int2:
       "The robust algorithm should only be used if the population is symmetric. If this algorithm is selected the add-in will check for skewness by calculating the adjusted Fisher-Pearson coefficient and display a warning if significant skewness is detected.",
     lbl_ri_method: "Parameter Estimation Method",
     opt_robust: "Robust",
     opt_np: "Non-parametric",
+    opt_parametric: "Parametric",
+    opt_boxcox_parametric: "Box-Cox Parametric",
+    opt_indirect: "Indirect (routine patient data)",
     lbl_ri_alpha: "Reference Limit Alpha",
     tip_ri_alpha: "Default value is 0.05 for 95% confidence interval.",
     lbl_ci_alpha: "Confidence Limits Alpha",
     tip_ci_alpha: "Default value is 0.10 for 90% confidence interval.",
+    lbl_ri_outliers: "Outlier Exclusion",
+    tip_ri_outliers:
+      "Excluded values are highlighted in the input range and listed below the reference limits.",
+    opt_outliers_none: "None",
+    opt_dixon_reed: "Dixon/Reed (iterative)",
+    opt_tukey: "Tukey",
+    opt_tukey_boxcox: "Tukey on Box-Cox transformed data",
+    lbl_partition_range: "Partition Range (optional)",
+    msg_partition_range: "Must be a valid Excel range. e.g., B2:B26",
+    tip_partition_range:
+      "Subgroup of each value, e.g. sex or age group, in a column with the same rows as the input range. Partitioning is tested and limits are calculated for each subgroup.",
+    opt_decision_partition: "Partition",
+    opt_decision_marginal: "Marginal",
+    opt_decision_none: "No partition",
+    msg_partition_partition:
+      "Partitioning is recommended. Use the reference limits of each subgroup.",
+    msg_partition_marginal:
+      "Partitioning is marginal. Consider the clinical significance of the differences between subgroups.",
+    msg_partition_none:
+      "Partitioning is not required. The subgroups may share a reference interval.",
+    lbl_ri_mode: "Mode",
+    opt_establish: "Establish reference interval",
+    opt_verify: "Verify transferred reference interval",
+    lbl_claimed_limits: "Reference Limits to Verify",
+    tip_claimed_limits:
+      "Lower and upper reference limits. The input range holds the results of 20 local reference subjects, or 40 or 60 if more subjects were tested.",
+    opt_verify_pass: "Reference interval verified.",
+    opt_verify_extend: "Not verified. Test another 20 reference subjects.",
+    opt_verify_fail: "Not verified. Establish a local reference interval.",
   };
   // implement at a later date if decide to support multiple languages
   // private static JA = {
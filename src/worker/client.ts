@@ -0,0 +1,73 @@
+/**
+ * Task pane interface to the calculation worker.
+ *
+ * @author Douglas Chesher
+ */
+
+/* global Worker, URL, MessageEvent, ErrorEvent */
+
+import { CalculationTask, TaskResults, WorkerMessage, runTask } from "./tasks";
+import { ProgressCallback } from "../progress";
+
+/* A calculation running in the worker */
+interface RunningCalculation<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Run a calculation task in a Web Worker.
+ *
+ * A new worker is started for each calculation and terminated when it
+ * completes or is cancelled. If cancelled, the result is rejected with an
+ * Error named "AbortError". Where Web Workers are not available the task
+ * is run on the calling thread and cannot be cancelled.
+ *
+ * @param task calculation to be performed
+ * @param progress optional callback reporting the progress of the calculation
+ * @returns the pending result and a function to cancel the calculation
+ */
+function runInWorker<K extends CalculationTask["type"]>(
+  task: Extract<CalculationTask, { type: K }>,
+  progress?: ProgressCallback
+): RunningCalculation<TaskResults[K]> {
+  if (typeof Worker === "undefined") {
+    return {
+      result: new Promise((resolve) => resolve(runTask(task, progress) as TaskResults[K])),
+      cancel: () => {},
+    };
+  }
+
+  const worker = new Worker(new URL("./worker.ts", import.meta.url));
+  let rejectResult: (reason: Error) => void = () => {};
+  const result = new Promise<TaskResults[K]>((resolve, reject) => {
+    rejectResult = reject;
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        if (progress !== undefined) progress(message.completed, message.total);
+      } else if (message.type === "result") {
+        worker.terminate();
+        resolve(message.result as TaskResults[K]);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+  });
+  worker.postMessage(task);
+
+  const cancel = () => {
+    worker.terminate();
+    const err = new Error("Calculation cancelled.");
+    err.name = "AbortError";
+    rejectResult(err);
+  };
+  return { result: result, cancel: cancel };
+}
+
+export { RunningCalculation, runInWorker };
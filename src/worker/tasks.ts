@@ -0,0 +1,117 @@
+/**
+ * Calculations that may be run in the calculation worker.
+ *
+ * Tasks are plain objects so that they can be posted to a Web Worker.
+ * A seed is passed rather than a random number generator, and the
+ * generator is created where the calculation runs.
+ *
+ * @author Douglas Chesher
+ */
+
+import { MethodCompRegression, ConfidenceIntervalModel } from "../regression";
+import { ref_limit, ReferenceInterval } from "../reference_intervals";
+import { indirect_ref_limit, IndirectReferenceInterval } from "../indirect";
+import { mulberry32 } from "../random";
+import { ProgressCallback } from "../progress";
+
+/* Method comparison regression */
+interface RegressionTask {
+  type: "regression";
+  x: number[];
+  y: number[];
+  regressionMethod: string;
+  errorRatio: number;
+  iterMax: number;
+  threshold: number;
+  alpha: number;
+  ciMethod: string;
+  bootstrapN: number;
+  seed: number;
+}
+
+/* Reference interval */
+interface RefLimitTask {
+  type: "reflimit";
+  data: number[];
+  alpha: number;
+  confAlpha: number;
+  method: string;
+  bootstrapN: number;
+  seed: number;
+}
+
+/* Indirect reference interval from routine patient data */
+interface IndirectTask {
+  type: "indirect";
+  data: number[];
+  alpha: number;
+}
+
+type CalculationTask = RegressionTask | RefLimitTask | IndirectTask;
+
+/* Result of each type of task */
+interface TaskResults {
+  regression: ConfidenceIntervalModel;
+  reflimit: ReferenceInterval;
+  indirect: IndirectReferenceInterval;
+}
+
+/* Messages posted from the worker to the task pane */
+type WorkerMessage =
+  | { type: "progress"; completed: number; total: number }
+  | {
+      type: "result";
+      result: ConfidenceIntervalModel | ReferenceInterval | IndirectReferenceInterval;
+    }
+  | { type: "error"; message: string };
+
+/**
+ * Run a calculation task.
+ *
+ * @param task calculation to be performed
+ * @param progress optional callback reporting the progress of the calculation
+ * @returns the results of the calculation
+ */
+function runTask(
+  task: CalculationTask,
+  progress?: ProgressCallback
+): ConfidenceIntervalModel | ReferenceInterval | IndirectReferenceInterval {
+  if (task.type === "regression") {
+    const regression = new MethodCompRegression(
+      task.regressionMethod,
+      task.errorRatio,
+      task.iterMax,
+      task.threshold,
+      task.alpha,
+      task.ciMethod,
+      task.bootstrapN,
+      mulberry32(task.seed),
+      progress
+    );
+    return regression.calculate(task.x, task.y);
+  } else if (task.type === "reflimit") {
+    return ref_limit(
+      task.data,
+      task.alpha,
+      task.confAlpha,
+      task.method,
+      task.bootstrapN,
+      mulberry32(task.seed),
+      progress
+    );
+  } else if (task.type === "indirect") {
+    return indirect_ref_limit(task.data, task.alpha, progress);
+  } else {
+    throw new Error("Unknown calculation task");
+  }
+}
+
+export {
+  RegressionTask,
+  RefLimitTask,
+  IndirectTask,
+  CalculationTask,
+  TaskResults,
+  WorkerMessage,
+  runTask,
+};
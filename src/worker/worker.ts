@@ -0,0 +1,30 @@
+/**
+ * Web Worker entry point for the calculation tasks.
+ *
+ * Running the calculations here keeps the task pane responsive during
+ * long bootstrap procedures. Cancellation is handled by the task pane
+ * terminating the worker.
+ *
+ * @author Douglas Chesher
+ */
+
+/* global self, Worker, MessageEvent */
+
+import { CalculationTask, WorkerMessage, runTask } from "./tasks";
+
+const ctx = self as unknown as Worker;
+
+function post(message: WorkerMessage) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<CalculationTask>) => {
+  try {
+    const result = runTask(event.data, (completed, total) => {
+      post({ type: "progress", completed: completed, total: total });
+    });
+    post({ type: "result", result: result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,51 @@
+import { test, expect } from "@jest/globals";
+import { decisionLevelBias, allowableDifference } from "../src/bias";
+import {
+    MethodCompRegression,
+    DemingRegression,
+    JackknifeConfidenceInterval,
+    REG_METHOD,
+} from "../src/regression";
+
+const x = [
+    1032, 1101, 1021, 1035, 1063, 1087, 1151, 1045, 1123, 1089, 1194, 1116, 1124, 1203, 1210,
+    1166, 1189, 1234, 1212, 1251, 1269, 1233, 1299, 1278, 1320, 1303, 1352, 1311, 1375, 1360,
+];
+const y = [
+    1070, 1115, 1068, 1071, 1052, 1132, 1159, 1040, 1143, 1120, 1187, 1122, 1162, 1195, 1247,
+    1151, 1214, 1262, 1223, 1255, 1307, 1232, 1311, 1301, 1349, 1289, 1380, 1305, 1396, 1382,
+];
+
+test("Allowable difference is the larger of the absolute and relative APS", () => {
+    expect(allowableDifference(100, 5, 0.1)).toBe(10);
+    expect(allowableDifference(20, 5, 0.1)).toBe(5);
+    expect(allowableDifference(20, -1, 0.1)).toBe(2);
+    expect(allowableDifference(20, -1, -1)).toBeNaN();
+});
+
+test("Bias standard error agrees with the jackknife of the predicted value", () => {
+    const level = 1200;
+    const model = new MethodCompRegression(REG_METHOD.DEMING).calculate(x, y);
+    const res = decisionLevelBias(model, [level], x.length, 0.05, 20, 0.02)[0];
+    expect(res.predicted).toBeCloseTo(model.intercept + model.slope * level, 8);
+    expect(res.bias).toBeCloseTo(res.predicted - level, 8);
+
+    // Jackknife standard error of the predicted value calculated directly
+    const jackknife = new JackknifeConfidenceInterval(x, y, new DemingRegression());
+    const jack = jackknife.jackknifeCoefficients();
+    const predictions = jack.b1.map((b1, i) => jack.b0[i] + b1 * level);
+    const se = jackknife.linnetSE(predictions, res.predicted);
+    const halfWidth = res.biasUCL - res.bias;
+    expect(halfWidth / se).toBeCloseTo(2.048407, 5); // t(0.975, 28)
+    expect(res.relBias).toBeCloseTo((100 * res.bias) / level, 8);
+    expect(res.allowable).toBe(24);
+    expect(res.withinAps).toBe(Math.abs(res.bias) <= 24);
+});
+
+test("Bias confidence limits are not available without the covariance", () => {
+    const model = new MethodCompRegression(REG_METHOD.PABA).calculate(x, y);
+    const res = decisionLevelBias(model, [1100, 1300], x.length);
+    expect(res.length).toBe(2);
+    expect(res[0].biasLCL).toBeNaN();
+    expect(res[0].withinAps).toBeUndefined();
+});
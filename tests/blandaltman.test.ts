@@ -0,0 +1,70 @@
+import { test, expect } from "@jest/globals";
+import { blandAltmanStatistics, differences, regressionBlandAltman, LOA_CI, LOA_Z } from "../src/blandaltman";
+import { noncentralTInv } from "../src/distributions";
+
+const x = [
+    1032, 1101, 1021, 1035, 1063, 1087, 1151, 1045, 1123, 1089, 1194, 1116, 1124, 1203, 1210,
+    1166, 1189, 1234, 1212, 1251, 1269, 1233, 1299, 1278, 1320, 1303, 1352, 1311, 1375, 1360,
+];
+const y = [
+    1070, 1115, 1068, 1071, 1052, 1132, 1159, 1040, 1143, 1120, 1187, 1122, 1162, 1195, 1247,
+    1151, 1214, 1262, 1223, 1255, 1307, 1232, 1311, 1301, 1349, 1289, 1380, 1305, 1396, 1382,
+];
+
+test("Differences", () => {
+    const abs = differences([10, 20], [12, 18], "abs");
+    expect(abs.means).toEqual([11, 19]);
+    expect(abs.diffs).toEqual([2, -2]);
+    const rel = differences([10, 20], [12, 18], "rel");
+    expect(rel.diffs[0]).toBeCloseTo(2 / 11, 10);
+});
+
+test("Bland-Altman statistics with approximate confidence intervals", () => {
+    const res = blandAltmanStatistics(x, y, "abs", 0.05, LOA_CI.APPROX);
+    expect(res.n).toBe(30);
+    expect(res.bias).toBeCloseTo(16.466667, 5);
+    expect(res.upperLoA).toBeCloseTo(res.bias + LOA_Z * res.sd, 10);
+    // t(0.975, 29) * sqrt(3 * s^2 / n)
+    expect(res.upperLoaUCL - res.upperLoA).toBeCloseTo(2.04523 * Math.sqrt((3 * res.sd * res.sd) / 30), 3);
+    expect(res.biasUCL - res.bias).toBeCloseTo((2.04523 * res.sd) / Math.sqrt(30), 3);
+    expect(res.pctOutsideAps).toBeNaN();
+});
+
+test("Bland-Altman exact confidence intervals use the noncentral t distribution", () => {
+    const res = blandAltmanStatistics(x, y, "abs", 0.05, LOA_CI.EXACT);
+    const n = 30;
+    const ncp = LOA_Z * Math.sqrt(n);
+    expect(res.upperLoaLCL).toBeCloseTo(res.bias + (res.sd * noncentralTInv(0.025, n - 1, ncp)) / Math.sqrt(n), 8);
+    expect(res.upperLoaUCL).toBeCloseTo(res.bias + (res.sd * noncentralTInv(0.975, n - 1, ncp)) / Math.sqrt(n), 8);
+    // limits are symmetric about the mean difference
+    expect(res.bias - res.lowerLoaUCL).toBeCloseTo(res.upperLoaLCL - res.bias, 8);
+    expect(res.bias - res.lowerLoaLCL).toBeCloseTo(res.upperLoaUCL - res.bias, 8);
+    // exact interval is asymmetric about the LoA, wider above
+    expect(res.upperLoaUCL - res.upperLoA).toBeGreaterThan(res.upperLoA - res.upperLoaLCL);
+});
+
+test("Percentage of differences outside the APS", () => {
+    const res = blandAltmanStatistics([100, 100, 100, 100], [101, 104, 106, 95], "rel", 0.05, LOA_CI.APPROX, 5, -1);
+    expect(res.pctOutsideAps).toBe(25);
+});
+
+test("Regression method for proportional bias and LoA", () => {
+    // Pairs at each mean with differences 0.5 + 0.1 * A +/- 0.05 * A
+    const rx: number[] = [];
+    const ry: number[] = [];
+    for (let a = 10; a <= 100; a += 10) {
+        for (const sign of [1, -1]) {
+            const d = 0.5 + 0.1 * a + sign * 0.05 * a;
+            rx.push(a - d / 2);
+            ry.push(a + d / 2);
+        }
+    }
+    const res = regressionBlandAltman(rx, ry);
+    expect(res.bias.intercept).toBeCloseTo(0.5, 8);
+    expect(res.bias.slope).toBeCloseTo(0.1, 8);
+    // absolute residuals are 0.05 * A
+    expect(res.sd.intercept).toBeCloseTo(0, 8);
+    expect(res.sd.slope).toBeCloseTo(0.05 * Math.sqrt(Math.PI / 2), 8);
+    expect(res.upperLoA.slope).toBeCloseTo(0.1 + LOA_Z * res.sd.slope, 8);
+    expect(res.lowerLoA.intercept).toBeCloseTo(0.5 - LOA_Z * res.sd.intercept, 8);
+});
@@ -0,0 +1,26 @@
+import { test, expect } from "@jest/globals";
+import { axisTitle, defaultChartOptions, parseChartOptions } from "../src/chartoptions";
+
+test("Axis titles use the default when blank and append units", () => {
+    expect(axisTitle("", "Reference Method")).toBe("Reference Method");
+    expect(axisTitle(" ", "Reference Method", "mmol/L")).toBe("Reference Method (mmol/L)");
+    expect(axisTitle("Old Analyser", "Reference Method", "")).toBe("Old Analyser");
+});
+
+test("Saved chart options are merged with the defaults", () => {
+    expect(parseChartOptions(null)).toEqual(defaultChartOptions());
+    expect(parseChartOptions("not json")).toEqual(defaultChartOptions());
+
+    const saved = JSON.stringify({
+        units: "U/L",
+        palette: { aps: "#FF0000", loa: 5 },
+        regression: { title: "Glucose", yAxis: { min: 0, max: "high", log: true } },
+    });
+    const options = parseChartOptions(saved);
+    expect(options.units).toBe("U/L");
+    expect(options.palette.aps).toBe("#FF0000");
+    expect(options.palette.loa).toBe("green"); // Wrong type is ignored
+    expect(options.regression.title).toBe("Glucose");
+    expect(options.regression.yAxis).toEqual({ title: "", min: 0, max: null, log: true });
+    expect(options.blandAltman).toEqual(defaultChartOptions().blandAltman);
+});
@@ -0,0 +1,8 @@
+import { test, expect } from "@jest/globals";
+import { chartName } from "../src/charts";
+
+test("Chart names are stable for a chart data cell", () => {
+    expect(chartName("Scatter", "AP61")).toBe("MET Scatter AP61");
+    expect(chartName("Scatter", " ap61:AZ200")).toBe("MET Scatter AP61");
+    expect(chartName("Difference", "AP61")).not.toBe(chartName("Difference", "AP62"));
+});
@@ -0,0 +1,38 @@
+import { test, expect } from "@jest/globals";
+import { kendall, pearson, ranks, spearman } from "../src/correlation";
+
+// Hollander M, Wolfe DA. Nonparametric Statistical Methods. 1973. p 187,
+// as used in the examples for cor.test in R
+const x = [44.4, 45.9, 41.9, 53.3, 44.7, 44.1, 50.7, 45.2, 60.1];
+const y = [2.6, 3.1, 2.5, 5.0, 3.6, 4.0, 5.2, 2.8, 3.8];
+
+test("Pearson correlation", () => {
+    const res = pearson(x, y);
+    expect(res.coefficient).toBeCloseTo(0.5711816, 6);
+    expect(res.statistic).toBeCloseTo(1.8411, 3);
+    expect(res.p).toBeCloseTo(0.1082, 3);
+    expect(res.lcl).toBeCloseTo(-0.1497426, 5);
+    expect(res.ucl).toBeCloseTo(0.8955795, 5);
+});
+
+test("Spearman correlation", () => {
+    const res = spearman(x, y);
+    expect(res.coefficient).toBeCloseTo(0.6, 10);
+    expect(res.lcl).toBeLessThan(0.6);
+    expect(res.ucl).toBeGreaterThan(0.6);
+});
+
+test("Kendall correlation", () => {
+    const res = kendall(x, y);
+    expect(res.coefficient).toBeCloseTo(0.4444444, 6);
+    // Score of 16 with variance 9 * 8 * 23 / 18 = 92
+    expect(res.statistic).toBeCloseTo(16 / Math.sqrt(92), 10);
+    expect(isNaN(res.lcl)).toBe(true);
+});
+
+test("Ties are given their average rank", () => {
+    expect(ranks([3, 1, 3, 2])).toEqual([3.5, 1, 3.5, 2]);
+    // Only the 8 untied pairs are concordant
+    const res = kendall([1, 2, 3, 4, 5], [1, 1, 2, 2, 4]);
+    expect(res.coefficient).toBeCloseTo(8 / Math.sqrt(10 * 8), 10);
+});
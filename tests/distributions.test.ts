@@ -0,0 +1,19 @@
+import { test, expect } from "@jest/globals";
+import { noncentralTCdf, noncentralTInv } from "../src/distributions";
+
+test("Noncentral t distribution function", () => {
+    // values from the jStat implementation, which is accurate for small ncp
+    expect(noncentralTCdf(5, 19, 8.77)).toBeCloseTo(0.00166334, 5);
+    expect(noncentralTCdf(12, 19, 8.77)).toBeCloseTo(0.92394632, 5);
+    expect(noncentralTCdf(0, 10, 0)).toBeCloseTo(0.5, 8);
+});
+
+test("Noncentral t quantiles give one-sided tolerance factors", () => {
+    // one-sided 95% coverage, 95% confidence tolerance factors
+    // NIST/SEMATECH e-Handbook of Statistical Methods, section 7.2.6.3
+    const z = 1.644854;
+    const k = (n: number) => noncentralTInv(0.95, n - 1, z * Math.sqrt(n)) / Math.sqrt(n);
+    expect(k(20)).toBeCloseTo(2.396, 3);
+    expect(k(100)).toBeCloseTo(1.927, 3);
+    expect(k(1000)).toBeCloseTo(1.727, 3);
+});
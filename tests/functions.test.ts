@@ -1,5 +1,6 @@
-import { dixonreed } from "../src/functions/functions";
+import { dixonreed, paba, deming, wdeming, ols, wols, reflimit } from "../src/functions/functions";
 import {test, expect} from "@jest/globals";
+import { MethodCompRegression, REG_METHOD } from "../src/regression";
 
 const data1 = [[0], [2], [3], [4]];
 const data2 = [[0], [2], [3], [7]];
@@ -10,4 +11,104 @@ test("Dixon Reed Test", () => {
     res = dixonreed(data2);
     expect(res[1][1]).toBeCloseTo(4/7);
     expect(res[2][1]).toBe(7);
-});
\ No newline at end of file
+    // Low outlier
+    res = dixonreed([[0], [5], [6], [7]]);
+    expect(res[1][0]).toBeCloseTo(5/7);
+    expect(res[2][0]).toBe(0);
+});
+
+const x = [[10377.5], [4056], [2654], [4747], [1459.5], [5880], [3871], [2461], [1802], [1607.5],
+    [4329], [7911.5], [1798.5], [6504], [9506.5], [4781], [2122], [17859], [7064], [963.5],
+    [408.5], [5623], [4923.5], [2745], [1738.5], [7057], [3001.5], [895.5], [12155.5], [1290.5],
+    [943], [11312.5], [2700], [3561], [1711], [1006], [1180.5], [9007], [4438], [3606]];
+
+const y = [[10741.5], [3848.5], [2655.5], [5190.5], [1554.5], [6025], [3861.5], [2533.5], [1858], [1636],
+    [4341.5], [8185], [1753.5], [6793], [9056], [4724.5], [2133.5], [16576.5], [7106.5], [986.5],
+    [481], [5603], [5046], [2799.5], [1721.5], [7547.5], [3009.5], [986.5], [11712], [1416],
+    [998.5], [11698.5], [2829], [3776.5], [1899], [1042], [1616], [9380.5], [4332.5], [3308.5]];
+
+test("PABA custom function", () => {
+    const res = paba(x, y);
+    // expected output from R mcr package version 1.3.3.1
+    expect(res[1][1]).toBeCloseTo(0.9987917, 4);
+    expect(res[1][2]).toBeCloseTo(0.9710559, 4);
+    expect(res[1][3]).toBeCloseTo(1.027696, 4);
+    expect(res[2][1]).toBeCloseTo(57.2280851, 3);
+    expect(res[3][1]).toBe("Tau");
+    expect(res[4][4]).toBe("Positive");
+});
+
+test("WDEMING custom function skips blank cells", () => {
+    const res = wdeming([...x, [""]], [...y, [5]]);
+    // expected output from R mcr package version 1.3.3.1
+    expect(res[1][1]).toBeCloseTo(0.9949122, 4);
+    expect(res[1][4]).toBeCloseTo(0.009755964, 5);
+    expect(res[2][1]).toBeCloseTo(80.3878188, 3);
+    expect(res[2][4]).toBeCloseTo(17.569477709, 3);
+});
+
+test("DEMING custom function", () => {
+    const res = deming(x, y, 1, "default");
+    expect(res[0]).toEqual(["", "Coefficient", "LCL", "UCL", "SE"]);
+    expect(res[1][2]).toBeLessThan(res[1][1]);
+    expect(res[1][3]).toBeGreaterThan(res[1][1]);
+});
+
+test("Number of bootstrap samples for the regression custom functions", () => {
+    const res = deming(x, y, 1, "bootstrap", 0.05, 200);
+    expect(res[1][2]).toBeLessThan(res[1][1]);
+    expect(res[1][3]).toBeGreaterThan(res[1][1]);
+    expect(() => paba(x, y, "bootstrap", 0.05, 0)).toThrow(RangeError);
+    expect(() => wdeming(x, y, 1, "bootstrap", 0.05, 1.5)).toThrow(RangeError);
+    expect(() => ols(x, y, "TBoot")).toThrow();
+});
+
+test("Regression custom functions check the confidence interval method", () => {
+    expect(() => paba(x, y, "jackknife")).toThrow("Unknown confidence interval method");
+    expect(() => deming(x, y, 1, "jacknife")).toThrow("Unknown confidence interval method");
+    expect(() => ols(x, y, "analytic")).toThrow("Unknown confidence interval method");
+    expect(deming(x, y, 1, "Jackknife")[1][1]).toBeCloseTo(paba(x, y)[1][1], 1);
+    // The regression engine refuses methods it does not handle rather than returning NaN
+    expect(() =>
+        new MethodCompRegression(REG_METHOD.PABA, 1, 30, 1e-6, 0.05, "jackknife").calculate([1, 2, 3, 4], [1, 2, 3, 5])
+    ).toThrow("Unknown confidence interval method");
+});
+
+test("Regression custom functions are reproducible with a seed", () => {
+    const res1 = paba(x, y, "bca", 0.05, 200, 42);
+    const res2 = paba(x, y, "bca", 0.05, 200, 42);
+    expect(res1[3]).toEqual(["Seed", 42, "", "", ""]);
+    expect(res1[1][2]).toBe(res2[1][2]);
+    expect(res1[2][3]).toBe(res2[2][3]);
+    expect(res1[4][1]).toBe("Tau");
+    const generated = deming(x, y, 1, "bootstrap", 0.05, 200);
+    expect(generated[3][0]).toBe("Seed");
+    expect(Number.isInteger(generated[3][1])).toBe(true);
+});
+
+test("OLS and WOLS custom functions include the ANOVA", () => {
+    const res = ols([[1], [2], [3], [4], [5]], [[1], [1], [2], [2], [4]]);
+    expect(res.length).toBe(5);
+    expect(res[1][1]).toBeCloseTo(0.7);
+    expect(res[3]).toEqual(["ANOVA", "R Squared", "Sy.x", "F", "p"]);
+    expect(res[4][1]).toBeCloseTo(0.816667);
+    expect(res[4][2]).toBeCloseTo(0.605530);
+    const wres = wols(x, y);
+    expect(wres[1][2]).toBeLessThan(wres[1][1]);
+    expect(wres[1][3]).toBeGreaterThan(wres[1][1]);
+    expect(wres[4][1]).toBeGreaterThan(0.9);
+    expect(deming(x, y).length).toBe(3);
+});
+
+test("REFLIMIT custom function", () => {
+    const values = [[4.1], [4.5], [""], [4.8], [5.0], [5.2], [5.3], [5.5], [5.9], [6.2], [6.6]];
+    const res = reflimit(values);
+    expect(res[0]).toEqual(["Ref Limit", "LCL", "UCL"]);
+    expect(res.length).toBe(3);
+    expect(res[1][0]).toBeLessThan(4.1);
+    expect(res[2][0]).toBeGreaterThan(6.6);
+    expect(reflimit(values, "BoxCox")[3][0]).toBe("Lambda");
+    const robust = reflimit(values, "robust", 0.05, 0.1, 200, 7);
+    expect(robust[3]).toEqual(["Seed", 7, ""]);
+    expect(robust).toEqual(reflimit(values, "robust", 0.05, 0.1, 200, 7));
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "@jest/globals";
+import { indirect_ref_limit } from "../src/indirect";
+import { runTask } from "../src/worker/tasks";
+import { mulberry32 } from "../src/random";
+
+// Standard normal deviate by the Box-Muller transformation
+function gauss(random: () => number): number {
+    return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Log-normal non-pathological results with a pathological high component, rounded to 0.1
+function routineData(healthy: number, pathological: number): number[] {
+    const random = mulberry32(42);
+    const data: number[] = [];
+    for (let i = 0; i < healthy; i++) data.push(Math.exp(1.5 + 0.2 * gauss(random)));
+    for (let i = 0; i < pathological; i++) data.push(Math.exp(2.2 + 0.3 * gauss(random)));
+    return data.map((x) => Math.round(x * 10) / 10);
+}
+
+// True reference limits of the non-pathological distribution
+const lower = Math.exp(1.5 - 1.959964 * 0.2);
+const upper = Math.exp(1.5 + 1.959964 * 0.2);
+
+test("Indirect reference interval of non-pathological data", () => {
+    const ri = indirect_ref_limit(routineData(5000, 0));
+    expect(ri.lowerLimit).toBeCloseTo(lower, 1);
+    expect(ri.upperLimit).toBeCloseTo(upper, 1);
+    expect(ri.lambda).toBeLessThan(0.2);
+    expect(ri.fraction).toBeGreaterThan(0.95);
+    expect(ri.n).toBe(5000);
+});
+
+test("Indirect reference interval of mixed routine data", () => {
+    const progress: number[] = [];
+    const ri = runTask(
+        { type: "indirect", data: routineData(20000, 3000), alpha: 0.05 },
+        (completed) => progress.push(completed)
+    );
+    if (!("truncation" in ri)) throw new Error("Expected an indirect reference interval");
+    expect(Math.abs(ri.lowerLimit - lower) / lower).toBeLessThan(0.03);
+    expect(Math.abs(ri.upperLimit - upper) / upper).toBeLessThan(0.05);
+    // About 13% of the results are pathological
+    expect(ri.fraction).toBeGreaterThan(0.8);
+    expect(ri.fraction).toBeLessThan(0.95);
+    expect(ri.truncation[1]).toBeLessThan(9);
+    expect(progress.length).toBeGreaterThan(0);
+});
+
+test("Indirect method requires enough positive results", () => {
+    expect(() => indirect_ref_limit([1, 2, 3])).toThrow(RangeError);
+    const data = routineData(500, 0);
+    data[0] = 0;
+    expect(() => indirect_ref_limit(data)).toThrow(RangeError);
+});
@@ -42,3 +42,28 @@ test("LS BootstrapConfidenceInterval", () => {
     expect(ciRes.slope).toBeCloseTo(0.7);
     expect(ciRes.intercept).toBeCloseTo(-0.1);
 });
+
+//SSyy = 6, SSE = 1.1 and F = 13.36 on 1 and 3 degrees of freedom
+test("LeastSquaresConfidenceInterval ANOVA", () => {
+    const ciRes = new LeastSquaresConfidenceInterval().calculate(x, y);
+    expect(ciRes.anova?.rSquared).toBeCloseTo(0.816667);
+    expect(ciRes.anova?.syx).toBeCloseTo(0.605530);
+    expect(ciRes.anova?.ssResidual).toBeCloseTo(1.1);
+    expect(ciRes.anova?.dfResidual).toBe(3);
+    expect(ciRes.anova?.f).toBeCloseTo(13.3636, 3);
+    expect(ciRes.anova?.p).toBeCloseTo(0.0354, 3);
+    expect(ciRes.covariance).toBeCloseTo(-3 * 0.366667 / 10);
+});
+
+//With weights of 1/x^2 the model y = b0 + b1 x is equivalent to the
+//unweighted model y/x = b1 + b0 (1/x)
+test("Weighted LeastSquaresRegression", () => {
+    const reg = new LeastSquaresRegression(true).calculate(x, y);
+    const transformed = new LeastSquaresRegression().calculate(
+        x.map((v) => 1 / v),
+        y.map((v, i) => v / x[i])
+    );
+    expect(reg.slope).toBeCloseTo(transformed.intercept, 8);
+    expect(reg.intercept).toBeCloseTo(transformed.slope, 8);
+    expect(() => new LeastSquaresRegression(true).calculate([0, ...x], [0, ...y])).toThrow();
+});
@@ -0,0 +1,21 @@
+import { test, expect } from "@jest/globals";
+import { foldedPercentiles, mountainPlot } from "../src/mountain";
+
+test("Percentiles are folded at the median", () => {
+    const res = foldedPercentiles([3, -1, 0, 2, 1]);
+    expect(res.differences).toEqual([-1, 0, 1, 2, 3]);
+    // 100 * i / 6 folded above 50
+    expect(res.percentiles[0]).toBeCloseTo(100 / 6, 10);
+    expect(res.percentiles[2]).toBeCloseTo(50, 10);
+    expect(res.percentiles[4]).toBeCloseTo(100 / 6, 10);
+    expect(Math.max(...res.percentiles)).toBeLessThanOrEqual(50);
+});
+
+test("Mountain plot of absolute and relative differences", () => {
+    const x = [100, 200, 300, 400];
+    const y = [110, 180, 330, 400];
+    expect(mountainPlot(x, y, "abs").differences).toEqual([-20, 0, 10, 30]);
+    const rel = mountainPlot(x, y, "rel");
+    expect(rel.differences[3]).toBeCloseTo(30 / 315, 10);
+    expect(rel.percentiles).toEqual([20, 40, 40, 20]);
+});
@@ -0,0 +1,34 @@
+import { test, expect } from "@jest/globals";
+import { generalizedEsd, pairedOutliers } from "../src/outliers";
+
+test("Generalized ESD test", () => {
+    // Example from the NIST/SEMATECH e-Handbook of Statistical Methods, section 1.3.5.17.3
+    const data = [
+        -0.25, 0.68, 0.94, 1.15, 1.2, 1.26, 1.26, 1.34, 1.38, 1.43, 1.49, 1.49, 1.55, 1.56, 1.58, 1.65, 1.69,
+        1.7, 1.76, 1.77, 1.81, 1.91, 1.94, 1.96, 1.99, 2.06, 2.09, 2.1, 2.14, 2.15, 2.23, 2.24, 2.26, 2.35,
+        2.37, 2.4, 2.47, 2.54, 2.62, 2.64, 2.9, 2.92, 2.92, 2.93, 3.21, 3.26, 3.3, 3.59, 3.68, 4.3, 4.64,
+        5.34, 5.42, 6.01,
+    ];
+    const outliers = generalizedEsd(data, 10, 0.05);
+    expect(outliers.length).toBe(3);
+    expect(outliers.map((o) => o.value)).toEqual([6.01, 5.42, 5.34]);
+    expect(outliers[0].statistic).toBeCloseTo(3.118, 2);
+    expect(outliers[0].critical).toBeCloseTo(3.158, 2);
+    // The second deviate is below its critical value but the third is above
+    expect(outliers[1].statistic).toBeLessThan(outliers[1].critical);
+    expect(outliers[2].statistic).toBeCloseTo(3.179, 2);
+    expect(outliers[2].critical).toBeCloseTo(3.143, 2);
+});
+
+test("Outliers in paired differences", () => {
+    const x = Array.from({ length: 40 }, (_, i) => 10 + 5 * i);
+    const y = x.map((v, i) => v + (i % 3) - 1);
+    y[7] = x[7] + 15;
+    const outliers = pairedOutliers(x, y, "abs");
+    expect(outliers.length).toBe(1);
+    expect(outliers[0].index).toBe(7);
+    expect(outliers[0].value).toBe(15);
+    // Proportional differences have no outliers on the relative scale
+    const yRel = x.map((v, i) => v * (1 + 0.01 * ((i % 3) - 1)));
+    expect(pairedOutliers(x, yRel, "rel").length).toBe(0);
+});
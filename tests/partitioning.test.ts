@@ -0,0 +1,86 @@
+import { test, expect } from "@jest/globals";
+import {
+    PARTITION,
+    MARGINAL,
+    NO_PARTITION,
+    harrisBoyd,
+    lahti,
+    partitionAnalysis,
+} from "../src/partitioning";
+
+// Evenly spaced normal quantiles, so the subgroups have known means and SDs
+function normalScores(n: number, mean: number, sd: number): number[] {
+    const z = Array.from({ length: n }, (_, i) => {
+        // Approximate probit of (i + 0.5) / n by the logistic distribution
+        const p = (i + 0.5) / n;
+        return Math.log(p / (1 - p)) / 1.702;
+    });
+    return z.map((v) => mean + sd * v);
+}
+
+test("Harris-Boyd test", () => {
+    const a = { name: "F", data: normalScores(120, 100, 10) };
+    const b = { name: "M", data: normalScores(120, 100, 10) };
+    let result = harrisBoyd(a, b);
+    expect(result.z).toBeCloseTo(0);
+    expect(result.zCritical).toBeCloseTo(3);
+    expect(result.sdRatio).toBeCloseTo(1);
+    expect(result.decision).toBe(NO_PARTITION);
+    // Means differ by 4 SD errors
+    const c = { name: "M", data: normalScores(120, 105, 10) };
+    result = harrisBoyd(a, c);
+    expect(result.z).toBeLessThan(-3);
+    expect(result.decision).toBe(PARTITION);
+    // Same means but the SD ratio is 1.6
+    const d = { name: "M", data: normalScores(120, 100, 16) };
+    result = harrisBoyd(a, d);
+    expect(result.sdRatio).toBeCloseTo(1.6);
+    expect(result.decision).toBe(PARTITION);
+    expect(() => harrisBoyd(a, { name: "X", data: [1] })).toThrow(RangeError);
+});
+
+test("Lahti test", () => {
+    // Identical subgroups have 2.5% in each tail of the combined limits
+    const data = Array.from({ length: 200 }, (_, i) => i + 1);
+    const same = lahti([
+        { name: "F", data: data },
+        { name: "M", data: data },
+    ]);
+    expect(same.lowerLimit).toBe(5);
+    expect(same.upperLimit).toBe(195);
+    expect(same.results[0].belowLower).toBeCloseTo(0.02);
+    expect(same.results[0].aboveUpper).toBeCloseTo(0.025);
+    expect(same.results.map((r) => r.decision)).toEqual([NO_PARTITION, NO_PARTITION]);
+    // A shifted subgroup has too many values above the combined upper limit
+    const shifted = lahti([
+        { name: "F", data: data },
+        { name: "M", data: data.map((x) => x + 20) },
+    ]);
+    expect(shifted.results[1].aboveUpper).toBeGreaterThan(0.041);
+    expect(shifted.results[1].decision).toBe(PARTITION);
+});
+
+test("Partition analysis", () => {
+    const groups = [
+        { name: "F", data: normalScores(120, 100, 10) },
+        { name: "M", data: normalScores(120, 100, 10) },
+        { name: "X", data: normalScores(120, 103, 10) },
+    ];
+    const analysis = partitionAnalysis(groups);
+    expect(analysis.subgroups.map((g) => g.n)).toEqual([120, 120, 120]);
+    expect(analysis.harrisBoyd.map((r) => r.groups)).toEqual([
+        ["F", "M"],
+        ["F", "X"],
+        ["M", "X"],
+    ]);
+    // The shift of X is below the Harris-Boyd critical value but the Lahti test is marginal
+    expect(analysis.harrisBoyd.map((r) => r.decision)).toEqual([
+        NO_PARTITION,
+        NO_PARTITION,
+        NO_PARTITION,
+    ]);
+    expect(analysis.lahti[2].aboveUpper).toBeCloseTo(4 / 120);
+    expect(analysis.lahti[2].decision).toBe(MARGINAL);
+    expect(analysis.recommendation).toBe(MARGINAL);
+    expect(() => partitionAnalysis(groups.slice(0, 1))).toThrow(RangeError);
+});
@@ -0,0 +1,21 @@
+import { test, expect } from "@jest/globals";
+import { mulberry32, parseSeed } from "../src/random";
+
+test("Seeded generator is reproducible", () => {
+    const r1 = mulberry32(12345);
+    const r2 = mulberry32(12345);
+    for (let i = 0; i < 100; i++) {
+        const v = r1();
+        expect(v).toBe(r2());
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThan(1);
+    }
+});
+
+test("Parse seed", () => {
+    expect(parseSeed("42")).toBe(42);
+    expect(() => parseSeed("1.5")).toThrow();
+    const seed = parseSeed("");
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+});
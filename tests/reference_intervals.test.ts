@@ -11,7 +11,14 @@ import {
     boxcoxfit,
     adjusted_fisher_pearson_coefficient,
     is_consistent_with_normal,
+    ref_limit,
+    ROBUST,
+    PARAMETRIC,
+    BOXCOX,
+    boxCox,
+    boxCoxInverse,
 } from '../src/reference_intervals';
+import { mulberry32 } from '../src/random';
 
 
 let data = [74.64731, 77.25439, 81.64253, 82.37364, 84.96763, 85.83717, 86.15544, 86.25899, 86.32812, 88.06514, 88.30495,
@@ -72,6 +79,13 @@ test("Bootstrap confidence interval", () => {
     expect(res[1][1]).toBeCloseTo(124, 0);
 });
 
+test("Bootstrap confidence interval is reproducible with a seed", () => {
+    const res1 = ref_limit(data, 0.05, 0.1, ROBUST, 500, mulberry32(2024));
+    const res2 = ref_limit(data, 0.05, 0.1, ROBUST, 500, mulberry32(2024));
+    expect(res1.lowerLimitCI).toEqual(res2.lowerLimitCI);
+    expect(res1.upperLimitCI).toEqual(res2.upperLimitCI);
+});
+
 test("Median absolute deviation", () => {
     const data = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
     const res = median_absolute_deviation(data, jStat.median(data));
@@ -120,3 +134,32 @@ test("Adjusted Fisher-Pearson coefficient", () => {
     //console.log(res2);
 });
 
+
+test("Parametric reference interval", () => {
+    const res = ref_limit([...data], 0.05, 0.1, PARAMETRIC);
+    const m = jStat.mean(data);
+    const s = jStat.stdev(data, true);
+    expect(res.lowerLimit).toBeCloseTo(m - 1.959964 * s, 4);
+    expect(res.upperLimit).toBeCloseTo(m + 1.959964 * s, 4);
+    // Confidence limits enclose the reference limits and are symmetric about the mean
+    expect(res.lowerLimitCI[0]).toBeLessThan(res.lowerLimit);
+    expect(res.lowerLimitCI[1]).toBeGreaterThan(res.lowerLimit);
+    expect(res.upperLimitCI[0] + res.lowerLimitCI[1]).toBeCloseTo(2 * m, 6);
+    // Approximate width of the CI, z * sd * sqrt(1/n + z^2 / 2(n-1))
+    const halfWidth = 1.644854 * s * Math.sqrt(1 / 100 + (1.959964 * 1.959964) / (2 * 99));
+    expect((res.upperLimitCI[1] - res.upperLimitCI[0]) / 2).toBeCloseTo(halfWidth, 0);
+});
+
+test("Box-Cox parametric reference interval is back-transformed", () => {
+    const res = ref_limit([...alp], 0.05, 0.1, BOXCOX);
+    expect(res.lambda).toBeDefined();
+    const lambda = res.lambda as number;
+    const transformed = alp.map((x) => boxCox(x, lambda));
+    const m = jStat.mean(transformed);
+    const s = jStat.stdev(transformed, true);
+    expect(res.upperLimit).toBeCloseTo(boxCoxInverse(m + 1.959964 * s, lambda), 2);
+    expect(res.lowerLimit).toBeGreaterThan(0);
+    expect(res.upperLimitCI[0]).toBeLessThan(res.upperLimit);
+    expect(res.upperLimitCI[1]).toBeGreaterThan(res.upperLimit);
+    expect(boxCoxInverse(boxCox(50, lambda), lambda)).toBeCloseTo(50, 8);
+});
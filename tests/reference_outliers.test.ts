@@ -0,0 +1,53 @@
+import { test, expect } from "@jest/globals";
+import {
+    DIXON_REED,
+    TUKEY,
+    TUKEY_BOXCOX,
+    dixonReedRatios,
+    iterativeDixonReed,
+    tukeyFences,
+    excludeOutliers,
+} from "../src/reference_outliers";
+
+test("Dixon/Reed ratios", () => {
+    const [low, high] = dixonReedRatios([0, 5, 6, 7]);
+    expect(low).toBeCloseTo(5 / 7);
+    expect(high).toBeCloseTo(1 / 7);
+});
+
+test("Iterative Dixon/Reed test", () => {
+    // 100 is excluded first, then 30 and finally 1 are outliers of the remaining data
+    const data = [100, 10, 11, 12, 13, 14, 30, 1];
+    const excluded = iterativeDixonReed(data);
+    expect(excluded.map((e) => e.value)).toEqual([100, 30, 1]);
+    expect(excluded.map((e) => e.index)).toEqual([0, 6, 7]);
+    // No outliers
+    expect(iterativeDixonReed([1, 2, 3, 4, 5, 6])).toEqual([]);
+});
+
+test("Tukey fences", () => {
+    // Quartiles of 1..9 are 3 and 7 (type 7)
+    const [lower, upper] = tukeyFences([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(lower).toBeCloseTo(-3);
+    expect(upper).toBeCloseTo(13);
+});
+
+test("Exclude outliers", () => {
+    const data = [1, 2, 3, 4, 5, 6, 7, 8, 9, 20, -10];
+    const tukey = excludeOutliers(data, TUKEY);
+    expect(tukey.excluded.map((e) => e.index)).toEqual([9, 10]);
+    expect(tukey.retained).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(excludeOutliers(data, "none").retained).toEqual(data);
+    expect(excludeOutliers([1, 2, 3, 4, 50], DIXON_REED).retained).toEqual([1, 2, 3, 4]);
+});
+
+test("Tukey fences on Box-Cox transformed data", () => {
+    // Log-normal data. The long upper tail is not excluded once transformed.
+    const data = Array.from({ length: 99 }, (_, i) => Math.exp(-2.33 + (4.66 * i) / 98));
+    const raw = excludeOutliers(data, TUKEY);
+    const transformed = excludeOutliers(data, TUKEY_BOXCOX);
+    expect(raw.excluded.length).toBeGreaterThan(0);
+    expect(transformed.excluded.length).toBe(0);
+    expect(transformed.lambda).toBeDefined();
+    expect(() => excludeOutliers([0, 1, 2], TUKEY_BOXCOX)).toThrow(RangeError);
+});
@@ -5,8 +5,17 @@ import {
     PassingBablokRegression,
     DemingRegression,
     WeightedDemingRegression,
-    DEFAULT_ERROR_RATIO
+    MethodCompRegression,
+    REG_METHOD,
+    CI_METHOD,
+    DEFAULT_ERROR_RATIO,
+    DEFAULT_ITER_MAX,
+    DEFAULT_THRESHOLD,
+    DEFAULT_ALPHA,
+    BAND_POINTS,
+    analyticConfidenceBand
 } from "../src/regression";
+import { mulberry32 } from "../src/random";
 
 const x = [10377.5, 4056, 2654, 4747, 1459.5, 5880, 3871, 2461, 1802, 1607.5,
     4329, 7911.5, 1798.5, 6504, 9506.5, 4781, 2122, 17859, 7064, 963.5,
@@ -47,3 +56,179 @@ test("Weighted Deming Regression with jackknife confidence interval", () => {
     expect(ciRes.slopeSE).toBeCloseTo(0.009755964, 5);
     expect(ciRes.interceptSE).toBeCloseTo(17.569477709, 3);
 });
+
+
+test("MethodCompRegression Passing Bablok", () => {
+    const res = new MethodCompRegression(REG_METHOD.PABA).calculate(x, y);
+    // expected output from R mcr package version 1.3.3.1
+    expect(res.slope).toBeCloseTo(0.9987917, 4);
+    expect(res.intercept).toBeCloseTo(57.2280851, 3);
+    expect(res.slopeLCL).toBeCloseTo(0.9710559, 4);
+    expect(res.slopeUCL).toBeCloseTo(1.027696, 4);
+});
+
+test("MethodCompRegression Weighted Deming", () => {
+    const res = new MethodCompRegression(REG_METHOD.WDEMING).calculate(x, y);
+    // expected output from R mcr package version 1.3.3.1
+    expect(res.slope).toBeCloseTo(0.9949122, 4);
+    expect(res.intercept).toBeCloseTo(80.3878188, 3);
+    expect(res.slopeSE).toBeCloseTo(0.009755964, 5);
+    expect(res.interceptSE).toBeCloseTo(17.569477709, 3);
+});
+
+test("MethodCompRegression bootstrap is reproducible with a seed", () => {
+    const calculate = (seed: number) =>
+        new MethodCompRegression(
+            REG_METHOD.DEMING,
+            DEFAULT_ERROR_RATIO,
+            DEFAULT_ITER_MAX,
+            DEFAULT_THRESHOLD,
+            DEFAULT_ALPHA,
+            CI_METHOD.BOOTSTRAP,
+            500,
+            mulberry32(seed)
+        ).calculate(x, y);
+    const res1 = calculate(42);
+    const res2 = calculate(42);
+    const res3 = calculate(43);
+    expect(res1.slopeLCL).toBe(res2.slopeLCL);
+    expect(res1.interceptUCL).toBe(res2.interceptUCL);
+    expect(res1.slopeLCL).not.toBe(res3.slopeLCL);
+    expect(res1.slopeLCL).toBeLessThan(res1.slope);
+    expect(res1.slopeUCL).toBeGreaterThan(res1.slope);
+});
+
+test("MethodCompRegression BCa and Student-t bootstrap intervals", () => {
+    const jackknife = new MethodCompRegression(REG_METHOD.DEMING).calculate(x, y);
+    for (const ciMethod of [CI_METHOD.BCA, CI_METHOD.TBOOT]) {
+        const res = new MethodCompRegression(
+            REG_METHOD.DEMING,
+            DEFAULT_ERROR_RATIO,
+            DEFAULT_ITER_MAX,
+            DEFAULT_THRESHOLD,
+            DEFAULT_ALPHA,
+            ciMethod,
+            200,
+            mulberry32(1)
+        ).calculate(x, y);
+        expect(res.slope).toBeCloseTo(jackknife.slope, 10);
+        expect(res.slopeLCL).toBeLessThan(res.slope);
+        expect(res.slopeUCL).toBeGreaterThan(res.slope);
+        expect(res.interceptLCL).toBeLessThan(res.intercept);
+        expect(res.interceptUCL).toBeGreaterThan(res.intercept);
+        // bootstrap and jackknife standard errors should be of similar size
+        expect(res.slopeSE / jackknife.slopeSE).toBeGreaterThan(0.5);
+        expect(res.slopeSE / jackknife.slopeSE).toBeLessThan(2);
+    }
+});
+
+test("Analytic standard errors agree with the jackknife", () => {
+    // Simulated data. Constant SD for Deming, constant CV for Weighted Deming
+    const random = mulberry32(42);
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const truth = Array.from({ length: 200 }, () => 100 + 900 * random());
+    const data = [
+        {
+            method: REG_METHOD.DEMING,
+            x: truth.map((t) => t + 20 * gaussian()),
+            y: truth.map((t) => 5 + 1.02 * t + 20 * gaussian()),
+        },
+        {
+            method: REG_METHOD.WDEMING,
+            x: truth.map((t) => t * (1 + 0.05 * gaussian())),
+            y: truth.map((t) => 5 + 1.02 * t * (1 + 0.05 * gaussian())),
+        },
+    ];
+    for (const { method, x: sx, y: sy } of data) {
+        const calculate = (ciMethod: string) =>
+            new MethodCompRegression(method, 1, 30, 1e-6, 0.05, ciMethod).calculate(sx, sy);
+        const jackknife = calculate(CI_METHOD.JACKKNIFE);
+        const analytic = calculate(CI_METHOD.ANALYTIC);
+        expect(analytic.slope).toBeCloseTo(jackknife.slope, 10);
+        expect(analytic.slopeSE / jackknife.slopeSE).toBeGreaterThan(0.8);
+        expect(analytic.slopeSE / jackknife.slopeSE).toBeLessThan(1.25);
+        expect(analytic.interceptSE / jackknife.interceptSE).toBeGreaterThan(0.8);
+        expect(analytic.interceptSE / jackknife.interceptSE).toBeLessThan(1.25);
+        expect(analytic.covariance).toBeLessThan(0);
+        expect(analytic.slopeLCL).toBeLessThan(analytic.slope);
+        expect(analytic.slopeUCL).toBeGreaterThan(analytic.slope);
+    }
+    expect(() => new MethodCompRegression(REG_METHOD.PABA, 1, 30, 1e-6, 0.05, CI_METHOD.ANALYTIC).calculate(x, y)).toThrow();
+});
+
+test("Passing Bablok cusum test for linearity", () => {
+    const reg = new PassingBablokRegression().calculate(x, y);
+    expect(reg.cusum).toBeDefined();
+    expect(reg.cusum?.critical).toBeCloseTo(1.358, 3);
+    expect(reg.cusum?.statistic).toBeGreaterThan(0);
+    expect(reg.cusum?.linear).toBe(true);
+    // Curved relationship
+    const cx = Array.from({ length: 50 }, (_, i) => 10 + 2 * i);
+    const cy = cx.map((v, i) => (v * v) / 50 + (i % 2 === 0 ? 1 : -1));
+    const curved = new MethodCompRegression(REG_METHOD.PABA).calculate(cx, cy);
+    expect(curved.cusum?.statistic).toBeGreaterThan(curved.cusum?.critical ?? 0);
+    expect(curved.cusum?.linear).toBe(false);
+    // Points all on the line
+    const line = new PassingBablokRegression().calculate(cx, cx);
+    expect(line.cusum?.statistic).toBe(0);
+    expect(line.cusum?.linear).toBe(true);
+    // Refits with the direction of the correlation given skip the tests
+    const refit = new PassingBablokRegression(0.05, true).calculate(x, y);
+    expect(refit.cusum).toBeUndefined();
+    expect(refit.kendall).toBeUndefined();
+});
+
+test("Passing Bablok Regression tests Kendall's tau for the direction of the correlation", () => {
+    const pos = new PassingBablokRegression().calculate(x, y);
+    expect(pos.kendall?.positive).toBe(true);
+    expect(pos.kendall?.significant).toBe(true);
+    expect(pos.kendall?.tau).toBeGreaterThan(0.9);
+    // Reflecting y gives the negative of the slope
+    const neg = new PassingBablokRegression().calculate(x, y.map((v) => 20000 - v));
+    expect(neg.kendall?.positive).toBe(false);
+    expect(neg.kendall?.tau).toBeCloseTo(-(pos.kendall?.tau ?? NaN), 10);
+    expect(neg.slope).toBeCloseTo(-pos.slope, 6);
+    expect(neg.intercept).toBeCloseTo(20000 - pos.intercept, 3);
+    expect(neg.slopeLCL).toBeCloseTo(-pos.slopeUCL, 6);
+    expect(neg.slopeUCL).toBeCloseTo(-pos.slopeLCL, 6);
+    // No test when the direction is given
+    expect(new PassingBablokRegression(0.05, true).calculate(x, y).kendall).toBeUndefined();
+});
+
+test("Analytic confidence band of the least squares regression line", () => {
+    // Mendenhall data. At the mean of x the SE of the fitted value is s / sqrt(n)
+    const xs = [1, 2, 3, 4, 5];
+    const ys = [1, 1, 2, 2, 4];
+    const res = new MethodCompRegression(REG_METHOD.OLS).calculate(xs, ys);
+    const band = analyticConfidenceBand(res, xs, 0.05);
+    expect(band?.x.length).toBe(BAND_POINTS);
+    expect(band?.x[0]).toBe(1);
+    expect(band?.x[BAND_POINTS - 1]).toBe(5);
+    const mid = (BAND_POINTS - 1) / 2;
+    const halfWidth = 3.182446 * Math.sqrt(0.366667 / 5);
+    expect(band?.lower[mid]).toBeCloseTo(2 - halfWidth, 4);
+    expect(band?.upper[mid]).toBeCloseTo(2 + halfWidth, 4);
+    // Not available without standard errors
+    const paba = new MethodCompRegression(REG_METHOD.PABA).calculate(x, y);
+    expect(analyticConfidenceBand(paba, x)).toBeUndefined();
+});
+
+test("Bootstrap confidence band encloses the regression line", () => {
+    const res = new MethodCompRegression(
+        REG_METHOD.DEMING,
+        DEFAULT_ERROR_RATIO,
+        DEFAULT_ITER_MAX,
+        DEFAULT_THRESHOLD,
+        DEFAULT_ALPHA,
+        CI_METHOD.BOOTSTRAP,
+        500,
+        mulberry32(1)
+    ).calculate(x, y);
+    const band = res.band;
+    expect(band?.x.length).toBe(BAND_POINTS);
+    band?.x.forEach((x0, i) => {
+        const fitted = res.intercept + res.slope * x0;
+        expect(band.lower[i]).toBeLessThan(fitted);
+        expect(band.upper[i]).toBeGreaterThan(fitted);
+    });
+});
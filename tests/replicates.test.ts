@@ -0,0 +1,43 @@
+import { test, expect } from "@jest/globals";
+import { errorRatio, repeatability, replicateBlandAltman } from "../src/replicates";
+
+const x1 = [10, 20, 30, 40, 50, 60];
+const x2 = [11, 19, 31, 39, 51, 59];
+const y1 = [12, 21, 33, 41, 54, 62];
+const y2 = [10, 23, 31, 43, 52, 64];
+
+test("Repeatability from duplicates", () => {
+    const rep = repeatability(x1, x2);
+    // All differences are 1, so s_r = sqrt(6 / 12)
+    expect(rep.n).toBe(6);
+    expect(rep.df).toBe(6);
+    expect(rep.sd).toBeCloseTo(Math.sqrt(0.5), 10);
+    // chi-square(0.975, 6) = 14.449, chi-square(0.025, 6) = 1.2373
+    expect(rep.sdLCL).toBeCloseTo(Math.sqrt(0.5) * Math.sqrt(6 / 14.4494), 3);
+    expect(rep.sdUCL).toBeCloseTo(Math.sqrt(0.5) * Math.sqrt(6 / 1.23734), 3);
+    expect(rep.cv).toBeGreaterThan(0);
+});
+
+test("Error ratio with F distribution confidence limits", () => {
+    const ratio = errorRatio(repeatability(x1, x2), repeatability(y1, y2));
+    // Test method differences are all 2, so the ratio of variances is 1 / 4
+    expect(ratio.ratio).toBeCloseTo(0.25, 10);
+    // F(0.975, 6, 6) = 5.8198
+    expect(ratio.lcl).toBeCloseTo(0.25 / 5.8198, 4);
+    expect(ratio.ucl).toBeCloseTo(0.25 * 5.8198, 3);
+});
+
+test("Bland-Altman limits of agreement adjusted for replicates", () => {
+    const res = replicateBlandAltman(x1, x2, y1, y2, "abs");
+    const diffs = [0.5, 2.5, 1.5, 2.5, 2.5, 3.5];
+    const m = diffs.reduce((a, b) => a + b) / 6;
+    const s2 = diffs.reduce((a, d) => a + (d - m) * (d - m), 0) / 5;
+    expect(res.bias).toBeCloseTo(m, 10);
+    expect(res.sdMeans).toBeCloseTo(Math.sqrt(s2), 10);
+    // s^2 = s_dbar^2 + s_rx^2 / 2 + s_ry^2 / 2
+    expect(res.sd).toBeCloseTo(Math.sqrt(s2 + 0.5 / 2 + 2 / 2), 10);
+    expect(res.upperLoA).toBeCloseTo(m + 1.96 * res.sd, 10);
+    // A method measured in singlicate is not adjusted
+    const single = replicateBlandAltman(x1, [], y1, y2, "abs");
+    expect(single.sd * single.sd - single.sdMeans * single.sdMeans).toBeCloseTo(1, 10);
+});
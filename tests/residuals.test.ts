@@ -0,0 +1,38 @@
+import { test, expect } from "@jest/globals";
+import { regressionResiduals, RESIDUAL_LIMIT } from "../src/residuals";
+import { MethodCompRegression, REG_METHOD } from "../src/regression";
+
+const x = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120];
+const y = [11, 19, 31, 39, 51, 59, 71, 79, 91, 99, 111, 119];
+
+test("Deming residuals are perpendicular distances when the error ratio is 1", () => {
+    const model = { slope: 1, intercept: 0, slopeLCL: NaN, slopeUCL: NaN, interceptLCL: NaN, interceptUCL: NaN };
+    const res = regressionResiduals(x, y, model, REG_METHOD.DEMING, 1);
+    expect(res.residuals[0]).toBeCloseTo(1 / Math.SQRT2, 10);
+    expect(res.residuals[1]).toBeCloseTo(-1 / Math.SQRT2, 10);
+    // SD of the residuals with n - 2 degrees of freedom
+    const sd = Math.sqrt((12 * 0.5) / 10);
+    expect(res.standardized[0]).toBeCloseTo(1 / Math.SQRT2 / sd, 10);
+    expect(res.limit).toBe(RESIDUAL_LIMIT);
+    expect(res.flagged.some((f) => f)).toBe(false);
+});
+
+test("Large residuals are flagged for each regression method", () => {
+    const xo = [...x, 60, 65, 75, 85, 95, 105, 115, 125];
+    const yo = [...y, 90, 66, 74, 86, 94, 106, 114, 126];
+    const methods = [REG_METHOD.DEMING, REG_METHOD.WDEMING, REG_METHOD.PABA, REG_METHOD.OLS, REG_METHOD.WOLS];
+    for (const method of methods) {
+        const model = new MethodCompRegression(method).calculate(xo, yo);
+        const res = regressionResiduals(xo, yo, model, method);
+        expect(res.residuals.length).toBe(xo.length);
+        expect(res.flagged[12]).toBe(true);
+        expect(res.flagged.filter((f) => f).length).toBe(1);
+    }
+});
+
+test("Least squares residuals are vertical distances", () => {
+    const model = { slope: 1, intercept: 0, slopeLCL: NaN, slopeUCL: NaN, interceptLCL: NaN, interceptUCL: NaN };
+    const res = regressionResiduals(x, y, model, REG_METHOD.OLS, 4);
+    expect(res.residuals[0]).toBeCloseTo(1, 10);
+    expect(res.residuals[1]).toBeCloseTo(-1, 10);
+});
@@ -0,0 +1,78 @@
+import { test, expect } from "@jest/globals";
+import { runTask } from "../src/worker/tasks";
+import { throttleProgress } from "../src/progress";
+import {
+    MethodCompRegression,
+    ConfidenceIntervalModel,
+    REG_METHOD,
+    CI_METHOD,
+    DEFAULT_ERROR_RATIO,
+    DEFAULT_ITER_MAX,
+    DEFAULT_THRESHOLD,
+    DEFAULT_ALPHA,
+} from "../src/regression";
+import { ref_limit, ReferenceInterval, ROBUST } from "../src/reference_intervals";
+import { mulberry32 } from "../src/random";
+
+const x = [
+    1032, 1101, 1021, 1035, 1063, 1087, 1151, 1045, 1123, 1089, 1194, 1116, 1124, 1203, 1210,
+    1166, 1189, 1234, 1212, 1251, 1269, 1233, 1299, 1278, 1320, 1303, 1352, 1311, 1375, 1360,
+];
+const y = [
+    1070, 1115, 1068, 1071, 1052, 1132, 1159, 1040, 1143, 1120, 1187, 1122, 1162, 1195, 1247,
+    1151, 1214, 1262, 1223, 1255, 1307, 1232, 1311, 1301, 1349, 1289, 1380, 1305, 1396, 1382,
+];
+
+test("Throttled progress is reported about 100 times and on completion", () => {
+    const calls: number[] = [];
+    const report = throttleProgress(1050, (completed) => calls.push(completed));
+    for (let i = 1; i <= 1050; i++) report(i);
+    expect(calls.length).toBe(105);
+    expect(calls[calls.length - 1]).toBe(1050);
+});
+
+test("Regression task matches MethodCompRegression and reports progress", () => {
+    const progress: number[] = [];
+    const res = runTask(
+        {
+            type: "regression",
+            x: x,
+            y: y,
+            regressionMethod: REG_METHOD.DEMING,
+            errorRatio: DEFAULT_ERROR_RATIO,
+            iterMax: DEFAULT_ITER_MAX,
+            threshold: DEFAULT_THRESHOLD,
+            alpha: DEFAULT_ALPHA,
+            ciMethod: CI_METHOD.BOOTSTRAP,
+            bootstrapN: 200,
+            seed: 11,
+        },
+        (completed, total) => progress.push(completed / total)
+    ) as ConfidenceIntervalModel;
+    const expected = new MethodCompRegression(
+        REG_METHOD.DEMING,
+        DEFAULT_ERROR_RATIO,
+        DEFAULT_ITER_MAX,
+        DEFAULT_THRESHOLD,
+        DEFAULT_ALPHA,
+        CI_METHOD.BOOTSTRAP,
+        200,
+        mulberry32(11)
+    ).calculate(x, y);
+    expect(res).toEqual(expected);
+    expect(progress.length).toBe(100);
+    expect(progress[progress.length - 1]).toBe(1);
+});
+
+test("Reference limit task matches ref_limit", () => {
+    const res = runTask({
+        type: "reflimit",
+        data: x,
+        alpha: 0.05,
+        confAlpha: 0.1,
+        method: ROBUST,
+        bootstrapN: 100,
+        seed: 5,
+    }) as ReferenceInterval;
+    expect(res).toEqual(ref_limit(x, 0.05, 0.1, ROBUST, 100, mulberry32(5)));
+});
@@ -0,0 +1,44 @@
+import { test, expect } from "@jest/globals";
+import { PASS, EXTEND, FAIL, binomialUpperTail, verifyTransference } from "../src/transference";
+
+test("Binomial upper tail probability", () => {
+    expect(binomialUpperTail(0, 20, 0.05)).toBeCloseTo(1);
+    expect(binomialUpperTail(1, 20, 0.05)).toBeCloseTo(0.641514, 5);
+    expect(binomialUpperTail(3, 20, 0.05)).toBeCloseTo(0.075484, 5);
+    expect(binomialUpperTail(5, 40, 0.05)).toBeCloseTo(0.048028, 5);
+    expect(binomialUpperTail(7, 60, 0.05)).toBeCloseTo(0.029694, 5);
+});
+
+// n results in 10 to 20, with `below` results below 10 and `above` results above 20
+function results(n: number, below: number, above: number): number[] {
+    const data = Array.from({ length: n }, (_, i) => 10 + (10 * i) / n);
+    for (let i = 0; i < below; i++) data[i] = 5;
+    for (let i = 0; i < above; i++) data[n - 1 - i] = 25;
+    return data;
+}
+
+test("Verification of 20 subjects", () => {
+    let verification = verifyTransference(results(20, 1, 1), 10, 20);
+    expect(verification.belowLower).toBe(1);
+    expect(verification.aboveUpper).toBe(1);
+    expect(verification.outside).toBe(2);
+    expect(verification.maxOutside).toBe(2);
+    expect(verification.decision).toBe(PASS);
+    verification = verifyTransference(results(20, 0, 3), 10, 20);
+    expect(verification.probability).toBeCloseTo(0.075484, 5);
+    expect(verification.decision).toBe(EXTEND);
+    expect(verifyTransference(results(20, 0, 4), 10, 20).decision).toBe(EXTEND);
+    expect(verifyTransference(results(20, 2, 3), 10, 20).decision).toBe(FAIL);
+});
+
+test("Extended verification of 40 and 60 subjects", () => {
+    expect(verifyTransference(results(40, 2, 2), 10, 20).decision).toBe(PASS);
+    expect(verifyTransference(results(40, 2, 3), 10, 20).decision).toBe(EXTEND);
+    expect(verifyTransference(results(40, 4, 3), 10, 20).decision).toBe(FAIL);
+    expect(verifyTransference(results(60, 3, 3), 10, 20).decision).toBe(PASS);
+    const verification = verifyTransference(results(60, 3, 4), 10, 20);
+    expect(verification.probability).toBeCloseTo(0.029694, 5);
+    expect(verification.decision).toBe(FAIL);
+    expect(() => verifyTransference(results(30, 0, 0), 10, 20)).toThrow(RangeError);
+    expect(() => verifyTransference(results(20, 0, 0), 20, 10)).toThrow(RangeError);
+});